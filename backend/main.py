@@ -37,6 +37,8 @@ class Shape4D(BaseModel):
     """Represents a 4D shape with vertices and edges"""
     vertices: List[Vector4D]
     edges: List[List[int]]  # Pairs of vertex indices
+    faces: Optional[List[List[int]]] = None  # Polygons as ordered loops of vertex indices
+    cells: Optional[List[List[int]]] = None  # 3D facets as lists of face indices
     position: Vector4D = Vector4D(x=0, y=0, z=0, w=0)
 
 
@@ -71,7 +73,28 @@ def create_4d_cube(size: float = 1.0) -> Shape4D:
             if bin(diff).count('1') == 1:  # Exactly one bit differs
                 edges.append([i, j])
 
-    return Shape4D(vertices=vertices, edges=edges)
+    # Create faces - one square for every pair of axes and every corner of the other two
+    faces = []
+    face_axes = []
+    for a in range(4):
+        for b in range(a + 1, 4):
+            bit_a, bit_b = 1 << a, 1 << b
+            for base in range(16):
+                if base & (bit_a | bit_b):
+                    continue
+                faces.append([base, base | bit_a, base | bit_a | bit_b, base | bit_b])
+                face_axes.append((a, b))
+
+    # Create cells - one cube for each side of each axis, made of the squares on that side
+    cells = []
+    for axis in range(4):
+        for side in (0, 1 << axis):
+            cells.append([
+                f for f, face in enumerate(faces)
+                if axis not in face_axes[f] and (face[0] & (1 << axis)) == side
+            ])
+
+    return Shape4D(vertices=vertices, edges=edges, faces=faces, cells=cells)
 
 
 def apply_transform(shape: Shape4D, transform: Transform4D) -> Shape4D:
@@ -81,6 +104,8 @@ def apply_transform(shape: Shape4D, transform: Transform4D) -> Shape4D:
     return Shape4D(
         vertices=shape.vertices,
         edges=shape.edges,
+        faces=shape.faces,
+        cells=shape.cells,
         position=Vector4D(
             x=shape.position.x + transform.translation.x,
             y=shape.position.y + transform.translation.y,
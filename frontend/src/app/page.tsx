@@ -1,24 +1,77 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import FourDVisualization from '@/components/FourDVisualization';
-import { Shape4D } from '@/types/4d';
-import { createGroundPlane, createGreenPlane, createBluePlane } from '@/shapes/definitions';
-import { useTransformForUI } from '@/store/transformStore';
+import { InspectorPanel } from '@/components/InspectorPanel';
+import { MeasurementPanel } from '@/components/MeasurementPanel';
+import { ScenePanel } from '@/components/ScenePanel';
+import { SceneFileControls } from '@/components/SceneFileControls';
+import { Axis4D, NavigationMode, Orientation4DUtils, ProjectionMode, Vector4D, Vector4DUtils } from '@/types/4d';
+import { useTransformStore, useTransformForUI, useOrientationAnglesForUI } from '@/store/transformStore';
 import { KeyboardControls } from '@/components/KeyboardControls';
+import { ViewLinkSync } from '@/components/ViewLinkSync';
+import { InputSettingsPanel, KeyBindingsHelp } from '@/components/InputSettings';
+import { GamepadOverlay, GamepadSettingsPanel } from '@/components/GamepadControls';
+import { PointerModeToggle } from '@/components/ArcballControls';
+import { TimelinePanel } from '@/components/TimelinePanel';
+import { SpinControls } from '@/components/SpinControls';
+import { DEFAULT_SLICE_HYPERPLANE, Hyperplane4D } from '@/shapes/slicing';
+import { DEFAULT_LOD_SETTINGS } from '@/shapes/lod';
+import { AXES_4D, PROJECTIONS, keptAxes } from '@/math/projection';
+import { DEFAULT_CAMERA, focalDistance } from '@/math/camera';
+import { useProjectionStore } from '@/store/projectionStore';
+import { useDepthCueStore } from '@/store/depthCueStore';
+import { sceneShapes, useSceneStore } from '@/store/sceneStore';
+import { useSelectionStore } from '@/store/selectionStore';
+import { useMeasurementStore } from '@/store/measurementStore';
 
 
 const API_BASE_URL = 'http://localhost:3010';
 
 export default function Home() {
-  const [allShapes, setAllShapes] = useState<Shape4D[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [showWhitePlane, setShowWhitePlane] = useState(false);
-  const [showOrangePlane, setShowOrangePlane] = useState(true);
-  const [showBluePlane, setShowBluePlane] = useState(false);
   const [show4DAxes, setShow4DAxes] = useState(true);
+  const [showFaces, setShowFaces] = useState(false);
+  const [gpuTransform, setGpuTransform] = useState(true);
+  const [quadView, setQuadView] = useState(false);
+  const [lod, setLod] = useState(DEFAULT_LOD_SETTINGS);
+  const [showCrossSection, setShowCrossSection] = useState(false);
+  // Slice normal as edited, normalised when the hyperplane is built
+  const [sliceNormal, setSliceNormal] = useState<Vector4D>(DEFAULT_SLICE_HYPERPLANE.normal);
+  const [sliceOffset, setSliceOffset] = useState(DEFAULT_SLICE_HYPERPLANE.offset);
   const transform = useTransformForUI();
+  const angles = useOrientationAnglesForUI();
+  const camera = useTransformStore((state) => state.camera);
+  const navigation = useTransformStore((state) => state.navigation);
+  const setNavigation = useTransformStore((state) => state.setNavigation);
+  const updateCamera = useTransformStore((state) => state.updateCamera);
+  const baseProjection = useProjectionStore((state) => state.settings);
+  const updateProjection = useProjectionStore((state) => state.updateSettings);
+  const sceneEntries = useSceneStore((state) => state.entries);
+  const resetScene = useSceneStore((state) => state.reset);
+  const depthCue = useDepthCueStore((state) => state.settings);
+  const updateDepthCue = useDepthCueStore((state) => state.updateSettings);
+
+  // With the camera, the perspective eye distance follows from its field of view
+  const projection = useMemo(() => navigation === 'camera'
+    ? { ...baseProjection, distance: focalDistance(camera.fov) }
+    : baseProjection, [baseProjection, navigation, camera.fov]);
+  // The HUD shows whatever navigation drives
+  const hudPosition = navigation === 'camera' ? camera.position : transform.translation;
+  const hudAngles = navigation === 'camera' ? Orientation4DUtils.toAngles(camera.orientation) : angles;
+
+  // The oblique W direction is edited as azimuth (around Y) and elevation angles
+  const { x: dx, y: dy, z: dz } = projection.obliqueDirection;
+  const obliqueAzimuth = Math.atan2(dz, dx) * 180 / Math.PI;
+  const obliqueElevation = Math.atan2(dy, Math.hypot(dx, dz)) * 180 / Math.PI;
+  const setObliqueAngles = (azimuth: number, elevation: number) => {
+    const az = azimuth * Math.PI / 180;
+    const el = elevation * Math.PI / 180;
+    updateProjection({
+      obliqueDirection: { x: Math.cos(el) * Math.cos(az), y: Math.sin(el), z: Math.cos(el) * Math.sin(az) }
+    });
+  };
 
   // Fetch 4D cube from backend and create planes once
   const fetchCube = useCallback(async () => {
@@ -30,13 +83,13 @@ export default function Home() {
       }
       const cubeData = await response.json();
 
-      // Create all shapes once and store them
-      const cube = cubeData;
-      const whitePlane = createGroundPlane({ size: 10, divisions: 24, y: -3, w: 0 });
-      const greenPlane = createGreenPlane({ size: 15, y: -2, wSize: 2, wDivisions: 24 });
-      const bluePlane = createBluePlane({ size: 10, divisions: 24, y: -1, w: 1 });
-
-      setAllShapes([cube, whitePlane, greenPlane, bluePlane]);
+      // Initial scene: the fetched tesseract and the three planes
+      resetScene([
+        { generator: 'tesseract', params: { size: 1.5 }, shape: cubeData },
+        { generator: 'white-plane', visible: false },
+        { generator: 'green-plane' },
+        { generator: 'blue-plane', visible: false },
+      ]);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch 4D cube');
@@ -44,16 +97,24 @@ export default function Home() {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [resetScene]);
+
+  // Visible shapes of the scene, in scene order
+  const shapes = useMemo(() => sceneShapes(sceneEntries), [sceneEntries]);
+
+  // Picks and measurements on removed entries go with them; hidden ones are kept for when they reappear
+  useEffect(() => {
+    const ids = new Set(sceneEntries.map(entry => entry.id));
+    useSelectionStore.getState().forgetRemoved(ids);
+    useMeasurementStore.getState().forgetRemoved(ids);
+  }, [sceneEntries]);
 
-  // Filter shapes based on visibility state
-  const shapes = allShapes.filter((shape, index) => {
-    if (index === 0) return true; // Always show cube
-    if (index === 1) return showWhitePlane; // White plane
-    if (index === 2) return showOrangePlane; // Green plane
-    if (index === 3) return showBluePlane; // Blue plane
-    return true;
-  });
+  // Hyperplane with the chosen normal, in view space; none while the normal is zero
+  const sliceHyperplane = useMemo<Hyperplane4D | null>(() => {
+    const length = Math.sqrt(Vector4DUtils.dot(sliceNormal, sliceNormal));
+    if (!showCrossSection || length === 0) return null;
+    return { normal: Vector4DUtils.scale(sliceNormal, 1 / length), offset: sliceOffset };
+  }, [showCrossSection, sliceNormal, sliceOffset]);
 
   // Initialize cube on component mount
   useEffect(() => {
@@ -90,6 +151,7 @@ export default function Home() {
   return (
     <div className="min-h-screen bg-gray-900 text-white">
       <KeyboardControls />
+      <ViewLinkSync />
       {/* Header */}
       <div className="absolute top-0 left-0 right-0 z-10 bg-black/50 backdrop-blur-sm p-4">
         <h1 className="text-2xl font-bold text-center">4D Space Visualization</h1>
@@ -98,66 +160,419 @@ export default function Home() {
         </p>
       </div>
 
+      <GamepadOverlay />
+      <PointerModeToggle />
+
       {/* Controls Info */}
       <div className="absolute top-20 left-4 z-10 bg-black/70 backdrop-blur-sm p-4 rounded-lg text-sm">
         <h3 className="font-semibold mb-2">Controls:</h3>
-        <div className="space-y-1 text-gray-300">
-          <p><kbd className="bg-gray-700 px-1 rounded">WASD</kbd> - Move X/Y</p>
-          <p><kbd className="bg-gray-700 px-1 rounded">QE</kbd> - Move Z</p>
-          <p><kbd className="bg-gray-700 px-1 rounded">Z</kbd> - Move W deeper (+W)</p>
-          <p><kbd className="bg-gray-700 px-1 rounded">X</kbd> - Move W shallower (-W)</p>
-          <div className="mt-2">
-            <p className="text-gray-400 text-xs mb-1">4D Rotations:</p>
-            <p><kbd className="bg-gray-700 px-1 rounded">I/K</kbd> - XY plane</p>
-            <p><kbd className="bg-gray-700 px-1 rounded">J/L</kbd> - XZ plane</p>
-            <p><kbd className="bg-gray-700 px-1 rounded">U/O</kbd> - XW plane</p>
-            <p><kbd className="bg-gray-700 px-1 rounded">7/8</kbd> - YZ plane</p>
-            <p><kbd className="bg-gray-700 px-1 rounded">9/0</kbd> - YW plane</p>
-            <p><kbd className="bg-gray-700 px-1 rounded">;/'</kbd> - ZW plane</p>
-          </div>
-        </div>
+        <KeyBindingsHelp />
       </div>
 
       {/* Visibility Controls */}
-      <div className="absolute top-96 left-4 z-10 bg-black/70 backdrop-blur-sm p-4 rounded-lg text-sm">
+      <div className="absolute top-96 left-4 z-10 bg-black/70 backdrop-blur-sm p-4 rounded-lg text-sm max-h-[calc(100vh-25rem)] overflow-y-auto">
         <div className="space-y-4">
-          {/* Plane Visibility */}
+          {/* Scene */}
           <div>
-            <h3 className="font-semibold mb-3">Plane Visibility:</h3>
+            <h3 className="font-semibold mb-3">Scene:</h3>
+            <SceneFileControls />
+            <div className="mt-2">
+              <ScenePanel />
+            </div>
+          </div>
+
+          {/* Navigation */}
+          <div>
+            <h3 className="font-semibold mb-3">Navigation:</h3>
             <div className="space-y-2">
-              <label className="flex items-center space-x-2 cursor-pointer">
+              <select
+                value={navigation}
+                onChange={(e) => setNavigation(e.target.value as NavigationMode)}
+                className="bg-gray-800 border border-gray-600 rounded px-1 w-full"
+              >
+                <option value="camera">Move the 4D camera</option>
+                <option value="object">Rotate the object</option>
+              </select>
+              {navigation === 'camera' && (
+                <>
+                  <label className="flex items-center space-x-2">
+                    <span className="text-gray-300 w-16">4D FOV</span>
+                    <input
+                      type="range"
+                      min={20}
+                      max={120}
+                      step={1}
+                      value={camera.fov}
+                      onChange={(e) => updateCamera({ fov: parseFloat(e.target.value) })}
+                      className="w-24"
+                    />
+                    <span className="text-gray-400 font-mono">{camera.fov.toFixed(0)}°</span>
+                  </label>
+                  <button
+                    onClick={() => updateCamera(DEFAULT_CAMERA)}
+                    className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600"
+                  >
+                    Reset camera
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Input */}
+          <div>
+            <h3 className="font-semibold mb-3">Keyboard:</h3>
+            <InputSettingsPanel />
+          </div>
+
+          {/* Gamepad */}
+          <div>
+            <h3 className="font-semibold mb-3">Gamepad:</h3>
+            <GamepadSettingsPanel />
+          </div>
+
+          {/* Spin */}
+          <div>
+            <h3 className="font-semibold mb-3">Spin:</h3>
+            <SpinControls />
+          </div>
+
+          {/* Animation */}
+          <div>
+            <h3 className="font-semibold mb-3">Animation:</h3>
+            <TimelinePanel />
+          </div>
+
+          {/* Projection Control */}
+          <div>
+            <h3 className="font-semibold mb-3">Projection:</h3>
+            <div className="space-y-2">
+              <select
+                value={projection.mode}
+                onChange={(e) => updateProjection({ mode: e.target.value as ProjectionMode })}
+                className="bg-gray-800 border border-gray-600 rounded px-1 w-full"
+              >
+                {(Object.keys(PROJECTIONS) as ProjectionMode[]).map(mode => (
+                  <option key={mode} value={mode}>{PROJECTIONS[mode].label}</option>
+                ))}
+              </select>
+              {projection.mode === 'axisDrop' && (
+                <label className="flex items-center space-x-2">
+                  <span className="text-gray-300 w-16">Drop</span>
+                  <select
+                    value={projection.droppedAxis}
+                    onChange={(e) => updateProjection({ droppedAxis: e.target.value as Axis4D })}
+                    className="bg-gray-800 border border-gray-600 rounded px-1"
+                  >
+                    {AXES_4D.map(axis => (
+                      <option key={axis} value={axis}>
+                        {axis.toUpperCase()} ({keptAxes(axis).join('').toUpperCase()} view)
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {projection.mode === 'perspective' && navigation === 'object' && (
+                <label className="flex items-center space-x-2">
+                  <span className="text-gray-300 w-16">Distance</span>
+                  <input
+                    type="range"
+                    min={3}
+                    max={15}
+                    step={0.5}
+                    value={projection.distance}
+                    onChange={(e) => updateProjection({ distance: parseFloat(e.target.value) })}
+                    className="w-24"
+                  />
+                  <span className="text-gray-400 font-mono">{projection.distance.toFixed(1)}</span>
+                </label>
+              )}
+              {PROJECTIONS[projection.mode].clipDistance && (
+                <label className="flex items-center space-x-2">
+                  <span className="text-gray-300 w-16">Near clip</span>
+                  <input
+                    type="range"
+                    min={0.05}
+                    max={3}
+                    step={0.05}
+                    value={projection.nearClip}
+                    onChange={(e) => updateProjection({ nearClip: parseFloat(e.target.value) })}
+                    className="w-24"
+                  />
+                  <span className="text-gray-400 font-mono">{projection.nearClip.toFixed(2)}</span>
+                </label>
+              )}
+              <label className="flex items-center space-x-2">
+                <span className="text-gray-300 w-16">Scale</span>
                 <input
-                  type="checkbox"
-                  checked={showWhitePlane}
-                  onChange={(e) => setShowWhitePlane(e.target.checked)}
-                  className="rounded border-gray-600 text-blue-600 focus:ring-blue-500"
+                  type="range"
+                  min={0.25}
+                  max={3}
+                  step={0.05}
+                  value={projection.scale}
+                  onChange={(e) => updateProjection({ scale: parseFloat(e.target.value) })}
+                  className="w-24"
                 />
-                <span className="text-gray-300">White Plane</span>
-                <div className="w-3 h-3 bg-white rounded border"></div>
+                <span className="text-gray-400 font-mono">{projection.scale.toFixed(2)}</span>
               </label>
+              {projection.mode === 'oblique' && (
+                <>
+                  <label className="flex items-center space-x-2">
+                    <span className="text-gray-300 w-16">Azimuth</span>
+                    <input
+                      type="range"
+                      min={-180}
+                      max={180}
+                      step={5}
+                      value={obliqueAzimuth}
+                      onChange={(e) => setObliqueAngles(parseFloat(e.target.value), obliqueElevation)}
+                      className="w-24"
+                    />
+                    <span className="text-gray-400 font-mono">{obliqueAzimuth.toFixed(0)}°</span>
+                  </label>
+                  <label className="flex items-center space-x-2">
+                    <span className="text-gray-300 w-16">Elevation</span>
+                    <input
+                      type="range"
+                      min={-90}
+                      max={90}
+                      step={5}
+                      value={obliqueElevation}
+                      onChange={(e) => setObliqueAngles(obliqueAzimuth, parseFloat(e.target.value))}
+                      className="w-24"
+                    />
+                    <span className="text-gray-400 font-mono">{obliqueElevation.toFixed(0)}°</span>
+                  </label>
+                  <label className="flex items-center space-x-2">
+                    <span className="text-gray-300 w-16">W length</span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={1.5}
+                      step={0.05}
+                      value={projection.obliqueFactor}
+                      onChange={(e) => updateProjection({ obliqueFactor: parseFloat(e.target.value) })}
+                      className="w-24"
+                    />
+                    <span className="text-gray-400 font-mono">{projection.obliqueFactor.toFixed(2)}</span>
+                  </label>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Faces Control */}
+          <div>
+            <h3 className="font-semibold mb-3">Faces:</h3>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showFaces}
+                onChange={(e) => setShowFaces(e.target.checked)}
+                className="rounded border-gray-600 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-gray-300">Show translucent faces</span>
+            </label>
+          </div>
+
+          {/* Renderer Control */}
+          <div>
+            <h3 className="font-semibold mb-3">Renderer:</h3>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={gpuTransform}
+                onChange={(e) => setGpuTransform(e.target.checked)}
+                className="rounded border-gray-600 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-gray-300">Transform on GPU</span>
+            </label>
+            <label className="flex items-center space-x-2 cursor-pointer mt-2">
+              <input
+                type="checkbox"
+                checked={quadView}
+                onChange={(e) => setQuadView(e.target.checked)}
+                className="rounded border-gray-600 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-gray-300">Quad view (XYZ, XYW, XZW, YZW)</span>
+            </label>
+            <label className="flex items-center space-x-2 cursor-pointer mt-2">
+              <input
+                type="checkbox"
+                checked={lod.enabled}
+                onChange={(e) => setLod({ ...lod, enabled: e.target.checked })}
+                className="rounded border-gray-600 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-gray-300">Level of detail for planes</span>
+            </label>
+            {lod.enabled && (
+              <label className="flex items-center space-x-2 mt-2">
+                <span className="text-gray-300">Full detail within</span>
+                <input
+                  type="range"
+                  min={2}
+                  max={40}
+                  step={1}
+                  value={lod.baseDistance}
+                  onChange={(e) => setLod({ ...lod, baseDistance: parseFloat(e.target.value) })}
+                  className="w-20"
+                />
+                <span className="text-gray-400 font-mono">{lod.baseDistance}</span>
+              </label>
+            )}
+          </div>
+
+          {/* W Depth Colouring Control */}
+          <div>
+            <h3 className="font-semibold mb-3">W Depth Colouring:</h3>
+            <div className="space-y-2">
               <label className="flex items-center space-x-2 cursor-pointer">
                 <input
                   type="checkbox"
-                  checked={showOrangePlane}
-                  onChange={(e) => setShowOrangePlane(e.target.checked)}
-                  className="rounded border-gray-600 text-green-500 focus:ring-green-500"
+                  checked={depthCue.enabled}
+                  onChange={(e) => updateDepthCue({ enabled: e.target.checked })}
+                  className="rounded border-gray-600 text-blue-600 focus:ring-blue-500"
                 />
-                <span className="text-gray-300">Green Plane</span>
-                <div className="w-3 h-3 bg-green-400 rounded border"></div>
+                <span className="text-gray-300">Colour by W</span>
               </label>
+              {depthCue.enabled && (
+                <>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="color"
+                      value={depthCue.lowColor}
+                      onChange={(e) => updateDepthCue({ lowColor: e.target.value })}
+                      className="w-6 h-6 bg-transparent"
+                    />
+                    <span className="text-gray-400 font-mono">{depthCue.wMin.toFixed(1)}</span>
+                    <div
+                      className="flex-1 h-2 rounded"
+                      style={{ background: `linear-gradient(to right, ${depthCue.lowColor}, ${depthCue.highColor})` }}
+                    />
+                    <span className="text-gray-400 font-mono">{depthCue.wMax.toFixed(1)}</span>
+                    <input
+                      type="color"
+                      value={depthCue.highColor}
+                      onChange={(e) => updateDepthCue({ highColor: e.target.value })}
+                      className="w-6 h-6 bg-transparent"
+                    />
+                  </div>
+                  <label className="flex items-center space-x-2">
+                    <span className="text-gray-300 w-16">W range</span>
+                    <input
+                      type="range"
+                      min={0.5}
+                      max={8}
+                      step={0.5}
+                      value={depthCue.wMax}
+                      onChange={(e) => {
+                        const range = parseFloat(e.target.value);
+                        updateDepthCue({ wMin: -range, wMax: range });
+                      }}
+                      className="w-24"
+                    />
+                  </label>
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={depthCue.fade}
+                      onChange={(e) => updateDepthCue({ fade: e.target.checked })}
+                      className="rounded border-gray-600 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="text-gray-300">Fade with W distance</span>
+                  </label>
+                  {depthCue.fade && (
+                    <label className="flex items-center space-x-2">
+                      <span className="text-gray-300 w-16">Fade at</span>
+                      <input
+                        type="range"
+                        min={0.5}
+                        max={8}
+                        step={0.5}
+                        value={depthCue.fadeDistance}
+                        onChange={(e) => updateDepthCue({ fadeDistance: parseFloat(e.target.value) })}
+                        className="w-24"
+                      />
+                      <span className="text-gray-400 font-mono">{depthCue.fadeDistance.toFixed(1)}</span>
+                    </label>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Cross-section Control */}
+          <div>
+            <h3 className="font-semibold mb-3">Cross-section:</h3>
+            <div className="space-y-2">
               <label className="flex items-center space-x-2 cursor-pointer">
                 <input
                   type="checkbox"
-                  checked={showBluePlane}
-                  onChange={(e) => setShowBluePlane(e.target.checked)}
-                  className="rounded border-gray-600 text-blue-500 focus:ring-blue-500"
+                  checked={showCrossSection}
+                  onChange={(e) => setShowCrossSection(e.target.checked)}
+                  className="rounded border-gray-600 text-yellow-500 focus:ring-yellow-500"
                 />
-                <span className="text-gray-300">Blue Plane (w=1)</span>
-                <div className="w-3 h-3 bg-blue-400 rounded border"></div>
+                <span className="text-gray-300">
+                  Slice at n · p = {sliceOffset.toFixed(1)}
+                  {sliceHyperplane && (
+                    <span className="text-gray-400 font-mono text-xs">
+                      {' '}n = ({AXES_4D.map(axis => sliceHyperplane.normal[axis].toFixed(2)).join(', ')})
+                    </span>
+                  )}
+                </span>
               </label>
+              {showCrossSection && (
+                <>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-gray-300 w-12">Offset</span>
+                    <input
+                      type="range"
+                      min={-3}
+                      max={3}
+                      step={0.1}
+                      value={sliceOffset}
+                      onChange={(e) => setSliceOffset(parseFloat(e.target.value))}
+                      className="w-28"
+                    />
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <span className="text-gray-300 w-12">Normal</span>
+                    {(['w', 'z', 'y', 'x'] as Axis4D[]).map(axis => (
+                      <button
+                        key={axis}
+                        onClick={() => setSliceNormal({ x: 0, y: 0, z: 0, w: 0, [axis]: 1 })}
+                        className="px-2 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+                      >
+                        {axis.toUpperCase()}
+                      </button>
+                    ))}
+                  </div>
+                  {AXES_4D.map(axis => (
+                    <label key={axis} className="flex items-center space-x-2">
+                      <span className="text-gray-400 w-12 text-right">n{axis}</span>
+                      <input
+                        type="range"
+                        min={-1}
+                        max={1}
+                        step={0.05}
+                        value={sliceNormal[axis]}
+                        onChange={(e) => setSliceNormal({ ...sliceNormal, [axis]: parseFloat(e.target.value) })}
+                        className="w-28"
+                      />
+                      <span className="text-gray-400 font-mono text-xs">{sliceNormal[axis].toFixed(2)}</span>
+                    </label>
+                  ))}
+                </>
+              )}
             </div>
           </div>
 
+          {/* Measurements */}
+          <div>
+            <h3 className="font-semibold mb-3">Measurements:</h3>
+            <MeasurementPanel shapes={shapes} projection={projection} />
+          </div>
+
           {/* 4D Axes Control */}
           <div>
             <h3 className="font-semibold mb-3">4D Axes:</h3>
@@ -182,32 +597,41 @@ export default function Home() {
 
       {/* Transform Info - memoized for performance */}
       <div className="absolute top-20 right-4 z-10 bg-black/70 backdrop-blur-sm p-4 rounded-lg text-sm max-w-xs">
-        <h3 className="font-semibold mb-2">Position:</h3>
+        <h3 className="font-semibold mb-2">{navigation === 'camera' ? 'Camera position:' : 'Position:'}</h3>
         <div className="space-y-1 text-gray-300 font-mono mb-3">
-          <p>X: {transform.translation.x.toFixed(1)}</p>
-          <p>Y: {transform.translation.y.toFixed(1)}</p>
-          <p>Z: {transform.translation.z.toFixed(1)}</p>
-          <p>W: {transform.translation.w.toFixed(1)}</p>
+          <p>X: {hudPosition.x.toFixed(1)}</p>
+          <p>Y: {hudPosition.y.toFixed(1)}</p>
+          <p>Z: {hudPosition.z.toFixed(1)}</p>
+          <p>W: {hudPosition.w.toFixed(1)}</p>
         </div>
 
         <h3 className="font-semibold mb-2">Rotations:</h3>
         <div className="space-y-1 text-gray-300 font-mono text-xs">
-          <p>XY: {(transform.rotation_xy * 180 / Math.PI).toFixed(0)}°</p>
-          <p>XZ: {(transform.rotation_xz * 180 / Math.PI).toFixed(0)}°</p>
-          <p>XW: {(transform.rotation_xw * 180 / Math.PI).toFixed(0)}°</p>
-          <p>YZ: {(transform.rotation_yz * 180 / Math.PI).toFixed(0)}°</p>
-          <p>YW: {(transform.rotation_yw * 180 / Math.PI).toFixed(0)}°</p>
-          <p>ZW: {(transform.rotation_zw * 180 / Math.PI).toFixed(0)}°</p>
+          <p>XY: {(hudAngles.rotation_xy * 180 / Math.PI).toFixed(0)}°</p>
+          <p>XZ: {(hudAngles.rotation_xz * 180 / Math.PI).toFixed(0)}°</p>
+          <p>XW: {(hudAngles.rotation_xw * 180 / Math.PI).toFixed(0)}°</p>
+          <p>YZ: {(hudAngles.rotation_yz * 180 / Math.PI).toFixed(0)}°</p>
+          <p>YW: {(hudAngles.rotation_yw * 180 / Math.PI).toFixed(0)}°</p>
+          <p>ZW: {(hudAngles.rotation_zw * 180 / Math.PI).toFixed(0)}°</p>
         </div>
       </div>
 
+      {/* Picked vertex or edge */}
+      <InspectorPanel shapes={shapes} projection={projection} />
+
       {/* 3D Visualization */}
       <div className="w-full h-screen">
         {shapes.length > 0 && (
           <FourDVisualization
             shapes={shapes}
-            projectionDistance={7}
+            projection={projection}
             show4DAxes={show4DAxes}
+            showFaces={showFaces}
+            sliceHyperplane={sliceHyperplane}
+            depthCue={depthCue}
+            gpuTransform={gpuTransform}
+            lod={lod}
+            layout={quadView ? 'quad' : 'single'}
           />
         )}
       </div>
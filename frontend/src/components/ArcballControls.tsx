@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import * as THREE from 'three';
+import { useThree } from '@react-three/fiber';
+import { DRAG_PLANE_OPTIONS, ScreenFrame, dragBivector } from '@/math/arcball';
+import { Bivector4D, ZERO_BIVECTOR, rotationFromBivector } from '@/math/rotation';
+import { useInputStore } from '@/store/inputStore';
+import { useTransformStore } from '@/store/transformStore';
+
+const NO_MOVE = { x: 0, y: 0, z: 0, w: 0 };
+
+// The 3D camera's screen axes, read from the columns of its world matrix
+function screenFrame(camera: THREE.Camera): ScreenFrame {
+  const e = camera.matrixWorld.elements;
+  return {
+    right: { x: e[0], y: e[1], z: e[2], w: 0 },
+    up: { x: e[4], y: e[5], z: e[6], w: 0 },
+    back: { x: e[8], y: e[9], z: e[10], w: 0 },
+  };
+}
+
+const turn = (bivector: Bivector4D) =>
+  useTransformStore.getState().navigate(NO_MOVE, rotationFromBivector(bivector, 1));
+
+// Drag to turn the scene in 4D while the pointer mode is 'rotate4D': a plain drag turns
+// through W, Shift- or Alt-drag turns in 3D, and a two-finger twist turns in ZW. Pinching
+// is left to OrbitControls, which keeps zooming in this mode.
+export function ArcballControls() {
+  const gl = useThree((state) => state.gl);
+  const camera = useThree((state) => state.camera);
+  const pointerMode = useInputStore((state) => state.pointerMode);
+
+  useEffect(() => {
+    if (pointerMode !== 'rotate4D') return;
+    const element = gl.domElement;
+    // Pointers currently down, by id, at their last position
+    const pointers = new Map<number, { x: number; y: number }>();
+    const twistAngle = () => {
+      const [a, b] = [...pointers.values()];
+      return Math.atan2(b.y - a.y, b.x - a.x);
+    };
+
+    const onDown = (event: PointerEvent) => {
+      element.setPointerCapture(event.pointerId);
+      pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    };
+    const onMove = (event: PointerEvent) => {
+      const previous = pointers.get(event.pointerId);
+      if (!previous) return;
+      if (pointers.size === 1) {
+        // Dragging across the full height turns by half a turn
+        const scale = Math.PI / element.clientHeight;
+        const { dragPlanes } = useInputStore.getState();
+        const in3D = event.shiftKey || event.altKey;
+        turn(dragBivector((event.clientX - previous.x) * scale, (event.clientY - previous.y) * scale, screenFrame(camera), dragPlanes, in3D));
+        pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      } else if (pointers.size === 2) {
+        const before = twistAngle();
+        pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+        const change = twistAngle() - before;
+        // Wrapped to (-π, π] so crossing the atan2 seam does not spin a whole turn
+        turn({ ...ZERO_BIVECTOR, zw: Math.atan2(Math.sin(change), Math.cos(change)) });
+      }
+    };
+    const onUp = (event: PointerEvent) => {
+      pointers.delete(event.pointerId);
+    };
+
+    element.addEventListener('pointerdown', onDown);
+    element.addEventListener('pointermove', onMove);
+    element.addEventListener('pointerup', onUp);
+    element.addEventListener('pointercancel', onUp);
+    return () => {
+      element.removeEventListener('pointerdown', onDown);
+      element.removeEventListener('pointermove', onMove);
+      element.removeEventListener('pointerup', onUp);
+      element.removeEventListener('pointercancel', onUp);
+    };
+  }, [gl, camera, pointerMode]);
+
+  return null;
+}
+
+// On-screen switch between orbiting the 3D camera and turning the scene in 4D
+export function PointerModeToggle() {
+  const { pointerMode, dragPlanes, setPointerMode, setDragPlanes } = useInputStore();
+  const button = (mode: typeof pointerMode, label: string) => (
+    <button
+      onClick={() => setPointerMode(mode)}
+      className={`px-2 py-0.5 rounded ${pointerMode === mode ? 'bg-pink-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="absolute bottom-4 right-4 z-10 bg-black/70 backdrop-blur-sm p-2 rounded-lg text-xs space-y-1">
+      <div className="flex space-x-1">
+        {button('orbit', 'Orbit 3D camera')}
+        {button('rotate4D', 'Rotate in 4D')}
+      </div>
+      {pointerMode === 'rotate4D' && (
+        <>
+          <label className="flex items-center space-x-2">
+            <span className="text-gray-300">Drag</span>
+            <select
+              value={dragPlanes}
+              onChange={(e) => setDragPlanes(e.target.value)}
+              className="bg-gray-800 border border-gray-600 rounded px-1 flex-1"
+            >
+              {DRAG_PLANE_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <p className="text-gray-400">Shift-drag: 3D planes · Two-finger twist: ZW · Pinch or wheel: zoom</p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import React, { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Shape4D, Transform4DUtils, Vector4D, Vector4DUtils } from '@/types/4d';
+import { useTransformStore } from '@/store/transformStore';
+import {
+  Hyperplane4D,
+  buildSliceTopology,
+  createCrossSection,
+  hyperplaneBasis,
+  sliceShape,
+} from '@/shapes/slicing';
+
+// Renders the 3D cross-section of a shape with a hyperplane, recomputed every frame
+export function CrossSectionRenderer({
+  shape,
+  hyperplane
+}: {
+  shape: Shape4D;
+  hyperplane: Hyperplane4D;
+}) {
+  const { vertices } = shape;
+
+  // Face connectivity only depends on the shape, so find it once
+  const topology = useMemo(() => buildSliceTopology(shape), [shape]);
+  const basis = useMemo(() => hyperplaneBasis(hyperplane.normal), [hyperplane.normal]);
+
+  const section = useMemo(() => createCrossSection(topology, vertices.length), [topology, vertices.length]);
+  const scratch = useMemo(() => ({
+    transformed: new Array<Vector4D>(vertices.length),
+    distances: new Float64Array(vertices.length),
+    edgePoint: new Int32Array(topology.edges.length),
+    vertexPoint: new Int32Array(vertices.length),
+  }), [topology, vertices.length]);
+
+  const { lineGeometry, pointGeometry } = useMemo(() => {
+    const lineGeometry = new THREE.BufferGeometry();
+    lineGeometry.setAttribute('position', new THREE.BufferAttribute(section.segments, 3));
+    const pointGeometry = new THREE.BufferGeometry();
+    pointGeometry.setAttribute('position', new THREE.BufferAttribute(section.points, 3));
+    return { lineGeometry, pointGeometry };
+  }, [section]);
+
+  useEffect(() => () => {
+    lineGeometry.dispose();
+    pointGeometry.dispose();
+  }, [lineGeometry, pointGeometry]);
+
+  useFrame(() => {
+    const transform = Transform4DUtils.shapeToView(shape, useTransformStore.getState());
+
+    for (let i = 0; i < vertices.length; i++) {
+      scratch.transformed[i] = Vector4DUtils.applyTransform(Vector4DUtils.add(vertices[i], shape.position), transform);
+    }
+
+    sliceShape(scratch.transformed, topology, hyperplane, basis, section, scratch);
+
+    lineGeometry.setDrawRange(0, section.segmentCount * 2);
+    pointGeometry.setDrawRange(0, section.pointCount);
+    lineGeometry.attributes.position.needsUpdate = true;
+    pointGeometry.attributes.position.needsUpdate = true;
+  });
+
+  return (
+    <group>
+      {/* The section changes every frame, so its bounds are never valid for culling */}
+      <lineSegments geometry={lineGeometry} frustumCulled={false}>
+        <lineBasicMaterial color={shape.color || "#ffffff"} />
+      </lineSegments>
+      <points geometry={pointGeometry} frustumCulled={false}>
+        <pointsMaterial color="#ff6b6b" size={0.05} />
+      </points>
+    </group>
+  );
+}
@@ -1,120 +1,270 @@
 'use client';
 
-import React, { useMemo, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, Text } from '@react-three/drei';
 import * as THREE from 'three';
-import { Shape4D, Vector4DUtils, Transform4D } from '@/types/4d';
-import { useTransformStore } from '@/store/transformStore';
+import { Axis4D, DepthCueSettings, LodSettings, ProjectionSettings, Shape4D, Vector4D, Vector4DUtils, Transform4D, Transform4DUtils } from '@/types/4d';
+import { useTransformStore, useViewTransformsForUI } from '@/store/transformStore';
+import { useInputStore } from '@/store/inputStore';
+import { Hyperplane4D } from '@/shapes/slicing';
+import { CrossSectionRenderer } from '@/components/CrossSectionRenderer';
+import { ShaderShape4DRenderer } from '@/components/ShaderShape4DRenderer';
+import { LodShapeRenderer } from '@/components/LodShapeRenderer';
+import { ShapePicker } from '@/components/ShapePicker';
+import { MeasurementAnnotations } from '@/components/MeasurementAnnotations';
+import { ArcballControls } from '@/components/ArcballControls';
+import { DEFAULT_LOD_SETTINGS } from '@/shapes/lod';
+import { DEFAULT_PROJECTION_SETTINGS, PROJECTIONS, clipSegment, lerp4D, projectPoint } from '@/math/projection';
+import { Mat4Buffer, Vec4Buffer } from '@/math/buffer4d';
+import { DEFAULT_DEPTH_CUE_SETTINGS, depthCueGradient, depthCueOpacity } from '@/math/depthCue';
 
 interface FourDVisualizationProps {
   shapes: Shape4D[];
-  projectionDistance?: number;
+  projection?: ProjectionSettings;
   show4DAxes?: boolean;
+  // Draw translucent faces for shapes that define them
+  showFaces?: boolean;
+  // When set, shapes are cut by this hyperplane instead of being projected
+  sliceHyperplane?: Hyperplane4D | null;
+  // Colour edges and vertices by their W coordinate
+  depthCue?: DepthCueSettings;
+  // Transform and project in a vertex shader instead of on the CPU
+  gpuTransform?: boolean;
+  // Distance-based decimation of lattice shapes
+  lod?: LodSettings;
+  // Hover and click picking of projected vertices and edges
+  picking?: boolean;
+  // 'quad' adds the four axis-dropping views next to the main one
+  layout?: 'single' | 'quad';
 }
 
-// Main 4D shape renderer - highly optimized for performance
+// CPU 4D shape renderer, kept as the reference for ShaderShape4DRenderer
 function Shape4DRenderer({
   shape,
-  projectionDistance
+  projection,
+  showFaces,
+  depthCue
 }: {
   shape: Shape4D;
-  projectionDistance: number;
+  projection: ProjectionSettings;
+  showFaces: boolean;
+  // Null when the shape is drawn in its flat colour
+  depthCue: DepthCueSettings | null;
 }) {
-  const { vertices, edges } = shape;
-  const transform = useTransformStore((state) => state.transform);
+  const { vertices, edges, faces } = shape;
 
-  // Create refs for the geometries that we will mutate directly
-  const lineGeo = useRef<THREE.BufferGeometry>(null!);
-  const pointGeo = useRef<THREE.BufferGeometry>(null!);
-
-  // Memoize the initial vertex positions to avoid recalculating
-  const initialPositions = useMemo(() => {
-    const pos = new Float32Array(vertices.length * 3);
-    for (let i = 0; i < vertices.length; i++) {
-      pos[i * 3] = vertices[i].x;
-      pos[i * 3 + 1] = vertices[i].y;
-      pos[i * 3 + 2] = vertices[i].z;
+  // Triangulate the (convex) faces as fans once
+  const faceTriangles = useMemo(() => {
+    const indices: number[] = [];
+    for (const face of faces ?? []) {
+      for (let i = 1; i < face.length - 1; i++) {
+        indices.push(face[0], face[i], face[i + 1]);
+      }
     }
-    return pos;
-  }, [vertices]);
+    return indices;
+  }, [faces]);
+
+  // Lines, points and faces share one position and one RGBA colour attribute. Which of them
+  // are drawn is decided every frame by rewriting their index buffers, since any vertex can
+  // end up behind the near clipping hyperplane.
+  const geometries = useMemo(() => {
+    const positions = new THREE.BufferAttribute(new Float32Array(vertices.length * 3), 3);
+    const colors = new THREE.BufferAttribute(new Float32Array(vertices.length * 4), 4);
+    // 16-bit indices only address the first 65,536 vertices
+    const IndexArray = vertices.length > 65536 ? Uint32Array : Uint16Array;
+    const createIndexed = (indexCount: number) => {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', positions);
+      geometry.setAttribute('color', colors);
+      geometry.setIndex(new THREE.BufferAttribute(new IndexArray(indexCount), 1).setUsage(THREE.DynamicDrawUsage));
+      return geometry;
+    };
+
+    // Edges crossing the near hyperplane end at a cut point of their own
+    const clippedLines = new THREE.BufferGeometry();
+    clippedLines.setAttribute('position', new THREE.BufferAttribute(new Float32Array(edges.length * 6), 3));
+    clippedLines.setAttribute('color', new THREE.BufferAttribute(new Float32Array(edges.length * 8), 4));
+
+    return {
+      positions,
+      colors,
+      lines: createIndexed(edges.length * 2),
+      clippedLines,
+      points: createIndexed(vertices.length),
+      faces: createIndexed(faceTriangles.length),
+    };
+  }, [vertices.length, edges.length, faceTriangles]);
+
+  useEffect(() => () => {
+    geometries.lines.dispose();
+    geometries.clippedLines.dispose();
+    geometries.points.dispose();
+    geometries.faces.dispose();
+  }, [geometries]);
+
+  // Shape-space vertices packed once; view-space vertices, their signed distance to the near
+  // hyperplane and the transform buffers are reused every frame
+  const scratch = useMemo(() => ({
+    local: Vec4Buffer.fromPoints(vertices.map(v => Vector4DUtils.add(v, shape.position)), new Float64Array(vertices.length * 4)),
+    view: new Float64Array(vertices.length * 4),
+    clip: new Float64Array(vertices.length),
+    orientation: Mat4Buffer.create(),
+    translation: new Float64Array(4),
+    point: { x: 0, y: 0, z: 0, w: 0 } as Vector4D,
+  }), [vertices, shape.position]);
+
+  // Gradient end points, converted once to the renderer's working colour space
+  const gradient = useMemo(() => depthCue && {
+    low: new THREE.Color(depthCue.lowColor),
+    high: new THREE.Color(depthCue.highColor),
+  }, [depthCue]);
+
+  const writeDepthCue = (attribute: THREE.BufferAttribute, index: number, w: number) => {
+    if (!depthCue || !gradient) return;
+    const t = depthCueGradient(w, depthCue);
+    const { low, high } = gradient;
+    attribute.setXYZW(
+      index,
+      low.r + (high.r - low.r) * t,
+      low.g + (high.g - low.g) * t,
+      low.b + (high.b - low.b) * t,
+      depthCueOpacity(w, depthCue)
+    );
+  };
 
   useFrame(() => {
-    if (!lineGeo.current || !pointGeo.current) return;
-
     // This is the core animation loop, running at 60fps
     // It directly manipulates the geometry, bypassing React's render cycle
-    const linePositions = lineGeo.current.attributes.position as THREE.BufferAttribute;
-    const pointPositions = pointGeo.current.attributes.position as THREE.BufferAttribute;
+    const strategy = PROJECTIONS[projection.mode];
+    const { positions, colors } = geometries;
+    const { local, view, clip, orientation, translation, point } = scratch;
+
+    const transform = Transform4DUtils.shapeToView(shape, useTransformStore.getState());
+    const t = transform.translation;
+    Mat4Buffer.fromRows(transform.orientation, orientation);
+    translation[0] = t.x;
+    translation[1] = t.y;
+    translation[2] = t.z;
+    translation[3] = t.w;
+    Vec4Buffer.transformPoints(orientation, translation, local, view, vertices.length);
+
+    // Unpacks view vertex i, into the shared point unless a fresh object is needed
+    const viewPoint = (i: number, out: Vector4D = { x: 0, y: 0, z: 0, w: 0 }) => {
+      out.x = view[i * 4];
+      out.y = view[i * 4 + 1];
+      out.z = view[i * 4 + 2];
+      out.w = view[i * 4 + 3];
+      return out;
+    };
 
     for (let i = 0; i < vertices.length; i++) {
-      const vertex = vertices[i];
-      let tempVertex = Vector4DUtils.add(vertex, shape.position);
-
-      if (shape.affectedByGlobalTransform !== false) {
-        tempVertex = Vector4DUtils.rotate(tempVertex, transform);
-        tempVertex = Vector4DUtils.add(tempVertex, transform.translation);
+      viewPoint(i, point);
+      clip[i] = strategy.clipDistance ? strategy.clipDistance(point, projection) : 0;
+      if (clip[i] >= 0) {
+        const p3d = strategy.project(point, projection);
+        positions.setXYZ(i, p3d.x, p3d.y, p3d.z);
+        writeDepthCue(colors, i, point.w);
       }
-
-      const p3d = Vector4DUtils.projectTo3D(tempVertex, projectionDistance);
-
-      linePositions.setXYZ(i, p3d.x, p3d.y, p3d.z);
-      pointPositions.setXYZ(i, p3d.x, p3d.y, p3d.z);
     }
-
-    // Tell Three.js to update the geometries
-    linePositions.needsUpdate = true;
-    pointPositions.needsUpdate = true;
+    positions.needsUpdate = true;
+    colors.needsUpdate = depthCue !== null;
+
+    // Edges fully in front of the near hyperplane are drawn through the index,
+    // edges crossing it are cut there, and edges fully behind it are dropped
+    const lineIndex = geometries.lines.index!;
+    const clippedPositions = geometries.clippedLines.attributes.position as THREE.BufferAttribute;
+    const clippedColors = geometries.clippedLines.attributes.color as THREE.BufferAttribute;
+    let lineCount = 0;
+    let clippedCount = 0;
+    for (let e = 0; e < edges.length; e++) {
+      const [a, b] = edges[e];
+      const ca = clip[a];
+      const cb = clip[b];
+      if (ca >= 0 && cb >= 0) {
+        lineIndex.setX(lineCount++, a);
+        lineIndex.setX(lineCount++, b);
+      } else if (ca >= 0 || cb >= 0) {
+        const inside = ca >= 0 ? a : b;
+        const cutPoint = lerp4D(viewPoint(a), viewPoint(b), ca / (ca - cb));
+        const cut = strategy.project(cutPoint, projection);
+        writeDepthCue(clippedColors, clippedCount, view[inside * 4 + 3]);
+        clippedPositions.setXYZ(clippedCount++, positions.getX(inside), positions.getY(inside), positions.getZ(inside));
+        writeDepthCue(clippedColors, clippedCount, cutPoint.w);
+        clippedPositions.setXYZ(clippedCount++, cut.x, cut.y, cut.z);
+      }
+    }
+    geometries.lines.setDrawRange(0, lineCount);
+    geometries.clippedLines.setDrawRange(0, clippedCount);
+    lineIndex.needsUpdate = true;
+    clippedPositions.needsUpdate = true;
+    clippedColors.needsUpdate = depthCue !== null;
+
+    const pointIndex = geometries.points.index!;
+    let pointCount = 0;
+    for (let i = 0; i < vertices.length; i++) {
+      if (clip[i] >= 0) pointIndex.setX(pointCount++, i);
+    }
+    geometries.points.setDrawRange(0, pointCount);
+    pointIndex.needsUpdate = true;
+
+    // Faces are not cut, triangles touching the clipped region are hidden instead
+    if (showFaces && faceTriangles.length > 0) {
+      const faceIndex = geometries.faces.index!;
+      let faceCount = 0;
+      for (let t = 0; t < faceTriangles.length; t += 3) {
+        const a = faceTriangles[t];
+        const b = faceTriangles[t + 1];
+        const c = faceTriangles[t + 2];
+        if (clip[a] >= 0 && clip[b] >= 0 && clip[c] >= 0) {
+          faceIndex.setX(faceCount++, a);
+          faceIndex.setX(faceCount++, b);
+          faceIndex.setX(faceCount++, c);
+        }
+      }
+      geometries.faces.setDrawRange(0, faceCount);
+      faceIndex.needsUpdate = true;
+    }
   });
 
-  // Create the line segments geometry once
-  const lineSegments = useMemo(() => {
-    const indices: number[] = [];
-    edges.forEach(edge => {
-      indices.push(edge[0], edge[1]);
-    });
-    return (
-      <lineSegments>
-        <bufferGeometry ref={lineGeo} attach="geometry">
-          <bufferAttribute
-            attach="attributes-position"
-            count={vertices.length}
-            array={initialPositions}
-            itemSize={3}
-          />
-          <bufferAttribute
-            attach="index"
-            count={indices.length}
-            array={new Uint16Array(indices)}
-            itemSize={1}
-          />
-        </bufferGeometry>
-        <lineBasicMaterial attach="material" color={shape.color || "#ffffff"} />
-      </lineSegments>
-    );
-  }, [edges, initialPositions, vertices.length, shape.color]);
-  
-  // Create the points geometry once
-  const points = useMemo(() => {
-     return (
-        <points>
-            <bufferGeometry ref={pointGeo} attach="geometry">
-                <bufferAttribute
-                    attach="attributes-position"
-                    count={vertices.length}
-                    array={initialPositions}
-                    itemSize={3}
-                />
-            </bufferGeometry>
-            <pointsMaterial attach="material" color="#ff6b6b" size={0.05} />
-        </points>
-     )
-  }, [initialPositions, vertices.length]);
+  // Toggling vertex colours changes the shader program, so the materials are keyed on it
+  // to be recreated rather than patched
+  const colorMode = depthCue ? 'depth' : 'flat';
+  const lineMaterial = depthCue ? (
+    <lineBasicMaterial key={colorMode} vertexColors transparent={depthCue.fade} depthWrite={!depthCue.fade} />
+  ) : (
+    <lineBasicMaterial key={colorMode} color={shape.color || "#ffffff"} />
+  );
 
+  // Positions change every frame, so the geometries' bounds are never valid for culling
   return (
     <group>
-      {lineSegments}
-      {points}
+      {showFaces && faceTriangles.length > 0 && (
+        <mesh geometry={geometries.faces} frustumCulled={false}>
+          <meshBasicMaterial
+            key={colorMode}
+            color={depthCue ? "#ffffff" : shape.color || "#ffffff"}
+            vertexColors={depthCue !== null}
+            transparent
+            opacity={0.15}
+            side={THREE.DoubleSide}
+            depthWrite={false}
+          />
+        </mesh>
+      )}
+      <lineSegments geometry={geometries.lines} frustumCulled={false}>
+        {lineMaterial}
+      </lineSegments>
+      <lineSegments geometry={geometries.clippedLines} frustumCulled={false}>
+        {lineMaterial}
+      </lineSegments>
+      <points geometry={geometries.points} frustumCulled={false}>
+        {depthCue ? (
+          <pointsMaterial key={colorMode} vertexColors transparent={depthCue.fade} depthWrite={!depthCue.fade} size={0.05} />
+        ) : (
+          <pointsMaterial key={colorMode} color="#ff6b6b" size={0.05} />
+        )}
+      </points>
     </group>
   );
 }
@@ -122,13 +272,14 @@ function Shape4DRenderer({
 
 // 4D coordinate axes component with subtle colors
 const CoordinateAxes4D = React.memo(({
-  projectionDistance = 5,
+  projection = DEFAULT_PROJECTION_SETTINGS,
   showAxes = true
 }: {
-  projectionDistance?: number;
+  projection?: ProjectionSettings;
   showAxes?: boolean;
 }) => {
-  const transform = useTransformStore((state) => state.transform);
+  const { transform, view } = useViewTransformsForUI();
+  const axesTransform = Transform4DUtils.compose(view, transform);
 
   // Refs for the line geometries
   const xAxisGeo = useRef<THREE.BufferGeometry>(null!);
@@ -149,14 +300,17 @@ const CoordinateAxes4D = React.memo(({
       axisVector
     ];
 
-    return points.map(point => {
-      // Apply global transform
-      let tempPoint = Vector4DUtils.rotate(point, transform);
-      tempPoint = Vector4DUtils.add(tempPoint, transform.translation);
+    // Apply the global transform and the camera view
+    const [start, end] = points.map(point => Vector4DUtils.applyTransform(point, axesTransform));
 
-      // Project to 3D
-      return Vector4DUtils.projectTo3D(tempPoint, projectionDistance);
-    });
+    // Clip against the near hyperplane; an axis entirely behind the eye collapses to a point
+    const visible = clipSegment(start, end, projection);
+    if (!visible) {
+      return [{ x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 0 }];
+    }
+
+    // Project to 3D
+    return visible.map(point => projectPoint(point, projection));
   };
 
   // Update transformable axes positions in useFrame (only when enabled)
@@ -441,44 +595,153 @@ const CoordinateAxes = React.memo(() => {
   );
 });
 
+type ViewportProps = Required<Omit<FourDVisualizationProps, 'shapes' | 'layout'>> & {
+  shapes: Shape4D[];
+  camera: { position: [number, number, number]; fov: number };
+};
+
+// One canvas showing the shapes through its own projection. Every viewport reads the
+// same transform store, so they stay in sync while each keeps its own orbit camera.
+function Viewport({
+  shapes,
+  projection,
+  show4DAxes,
+  showFaces,
+  sliceHyperplane,
+  depthCue,
+  gpuTransform,
+  lod,
+  picking,
+  camera
+}: ViewportProps) {
+  const ShapeRenderer = gpuTransform ? ShaderShape4DRenderer : Shape4DRenderer;
+  const pointerMode = useInputStore((state) => state.pointerMode);
+
+  return (
+    <Canvas
+      camera={camera}
+      // Touch gestures belong to the controls rather than to page scrolling and zooming
+      style={{ background: '#0a0a0a', touchAction: 'none' }}
+      frameloop="always" // Ensure continuous rendering
+      dpr={[1, 2]} // Adaptive pixel ratio for performance
+    >
+      <ambientLight intensity={0.5} />
+      <pointLight position={[10, 10, 10]} />
+
+      {shapes.map((shape, idx) => sliceHyperplane ? (
+        <CrossSectionRenderer
+          key={shape.id ?? idx}
+          shape={shape}
+          hyperplane={sliceHyperplane}
+        />
+      ) : lod.enabled && shape.lattice ? (
+        <LodShapeRenderer
+          key={shape.id ?? idx}
+          renderer={ShapeRenderer}
+          lod={lod}
+          shape={shape}
+          projection={projection}
+          showFaces={showFaces}
+          depthCue={depthCue.enabled && shape.depthCue !== false ? depthCue : null}
+        />
+      ) : (
+        <ShapeRenderer
+          key={shape.id ?? idx}
+          shape={shape}
+          projection={projection}
+          showFaces={showFaces}
+          depthCue={depthCue.enabled && shape.depthCue !== false ? depthCue : null}
+        />
+      ))}
+
+      {picking && !sliceHyperplane && (
+        <ShapePicker shapes={shapes} projection={projection} />
+      )}
+      {!sliceHyperplane && <MeasurementAnnotations shapes={shapes} projection={projection} />}
+
+      {/* Dragging belongs to ArcballControls in 4D mode, while wheel and pinch still zoom */}
+      <OrbitControls
+        enablePan={pointerMode === 'orbit'}
+        enableZoom={true}
+        enableRotate={pointerMode === 'orbit'}
+        enableDamping={false} // Disable damping for immediate response
+      />
+
+      <ArcballControls />
+
+      {/* 4D coordinate axes with subtle colors */}
+      <CoordinateAxes4D
+        projection={projection}
+        showAxes={show4DAxes}
+      />
+    </Canvas>
+  );
+}
+
+const MAIN_CAMERA = { position: [10, 10, 10] as [number, number, number], fov: 75 };
+// Axis views look straight down their third kept axis
+const AXIS_CAMERA = { position: [0, 0, 12] as [number, number, number], fov: 50 };
+
+// Quad view panels: the main view, then one axis-drop view per dropped axis
+type QuadPanel = 'main' | Axis4D;
+const AXIS_PANELS: { dropped: Axis4D; label: string }[] = [
+  { dropped: 'w', label: 'XYZ' },
+  { dropped: 'z', label: 'XYW' },
+  { dropped: 'y', label: 'XZW' },
+  { dropped: 'x', label: 'YZW' },
+];
+
 // Main visualization component - optimized for high frame rates
 const FourDVisualization = React.memo(({
   shapes,
-  projectionDistance = 5,
-  show4DAxes = false
+  projection = DEFAULT_PROJECTION_SETTINGS,
+  show4DAxes = false,
+  showFaces = false,
+  sliceHyperplane = null,
+  depthCue = DEFAULT_DEPTH_CUE_SETTINGS,
+  gpuTransform = true,
+  lod = DEFAULT_LOD_SETTINGS,
+  picking = true,
+  layout = 'single'
 }: FourDVisualizationProps) => {
-  return (
-    <div className="w-full h-full">
-      <Canvas
-        camera={{ position: [10, 10, 10], fov: 75 }}
-        style={{ background: '#0a0a0a' }}
-        frameloop="always" // Ensure continuous rendering
-        dpr={[1, 2]} // Adaptive pixel ratio for performance
-      >
-        <ambientLight intensity={0.5} />
-        <pointLight position={[10, 10, 10]} />
-
-        {shapes.map((shape, idx) => (
-          <Shape4DRenderer
-            key={idx}
-            shape={shape}
-            projectionDistance={projectionDistance}
-          />
-        ))}
+  const [maximised, setMaximised] = useState<QuadPanel | null>(null);
+  const shared = { shapes, show4DAxes, showFaces, sliceHyperplane, depthCue, gpuTransform, lod, picking };
 
-        <OrbitControls
-          enablePan={true}
-          enableZoom={true}
-          enableRotate={true}
-          enableDamping={false} // Disable damping for immediate response
-        />
+  if (layout === 'single') {
+    return (
+      <div className="w-full h-full">
+        <Viewport {...shared} projection={projection} camera={MAIN_CAMERA} />
+      </div>
+    );
+  }
 
-        {/* 4D coordinate axes with subtle colors */}
-        <CoordinateAxes4D
-          projectionDistance={projectionDistance}
-          showAxes={show4DAxes}
+  const panel = (id: QuadPanel, label: string, panelProjection: ProjectionSettings, className: string) => {
+    if (maximised !== null && maximised !== id) return null;
+    return (
+      <div key={id} className={`relative min-h-0 min-w-0 border border-gray-800 ${maximised ? 'col-span-4 row-span-2' : className}`}>
+        <Viewport
+          {...shared}
+          projection={panelProjection}
+          camera={id === 'main' ? MAIN_CAMERA : AXIS_CAMERA}
         />
-      </Canvas>
+        <span className="absolute top-1 left-2 text-xs font-mono text-gray-400 pointer-events-none">{label}</span>
+        <button
+          onClick={() => setMaximised(maximised ? null : id)}
+          className="absolute top-1 right-1 px-1.5 rounded text-xs bg-black/60 text-gray-300 hover:text-white"
+          title={maximised ? 'Restore quad view' : 'Maximise'}
+        >
+          {maximised ? '⤡' : '⤢'}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full h-full grid grid-cols-4 grid-rows-2">
+      {panel('main', PROJECTIONS[projection.mode].label, projection, 'col-span-2 row-span-2')}
+      {AXIS_PANELS.map(({ dropped, label }) =>
+        panel(dropped, label, { ...projection, mode: 'axisDrop', droppedAxis: dropped }, '')
+      )}
     </div>
   );
 });
@@ -0,0 +1,88 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { GAMEPAD_MAPPINGS, GAMEPAD_STICK_LABELS, GamepadMode, GamepadSettings, gamepadMode } from '@/math/gamepad';
+import { MotionAxis, TRANSLATION_AXES } from '@/math/motion';
+import { useInputStore } from '@/store/inputStore';
+
+// How often the overlay checks the connected gamepads and their chord
+const POLL_INTERVAL_MS = 100;
+
+const axisLabel = (axis: MotionAxis) =>
+  `${(TRANSLATION_AXES as string[]).includes(axis) ? 'Move' : 'Rotate'} ${axis.toUpperCase()}`;
+
+// Mapping of the sticks in the current chord mode, shown while a gamepad is connected
+export function GamepadOverlay() {
+  const [status, setStatus] = useState<{ name: string; mode: GamepadMode } | null>(null);
+
+  useEffect(() => {
+    const poll = () => {
+      const gamepad = (navigator.getGamepads?.() ?? []).find(pad => pad !== null) ?? null;
+      const next = gamepad && { name: gamepad.id, mode: gamepadMode(gamepad) };
+      setStatus(current => (current?.name === next?.name && current?.mode === next?.mode ? current : next));
+    };
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!status) return null;
+  const mapping = GAMEPAD_MAPPINGS[status.mode];
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 bg-black/70 backdrop-blur-sm p-3 rounded-lg text-xs">
+      <p className="text-gray-400 truncate max-w-xs" title={status.name}>🎮 {status.name}</p>
+      <div className="flex space-x-2 my-1">
+        {(Object.keys(GAMEPAD_MAPPINGS) as GamepadMode[]).map(mode => (
+          <span
+            key={mode}
+            className={`px-1 rounded ${mode === status.mode ? 'bg-pink-600 text-white' : 'bg-gray-700 text-gray-400'}`}
+          >
+            {GAMEPAD_MAPPINGS[mode].label} · {GAMEPAD_MAPPINGS[mode].chord}
+          </span>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-x-3 font-mono text-gray-300">
+        {(Object.keys(GAMEPAD_STICK_LABELS) as (keyof typeof GAMEPAD_STICK_LABELS)[]).map(stick => {
+          const target = mapping.axes[stick];
+          return (
+            <p key={stick}>
+              {GAMEPAD_STICK_LABELS[stick]}: {target ? axisLabel(target[0]) : '—'}
+            </p>
+          );
+        })}
+      </div>
+      <p className="text-gray-400 mt-1">Hold a trigger to go faster</p>
+    </div>
+  );
+}
+
+const SETTING_SLIDERS: { key: keyof GamepadSettings; label: string; min: number; max: number; step: number }[] = [
+  { key: 'deadZone', label: 'Dead zone', min: 0, max: 0.5, step: 0.05 },
+  { key: 'sensitivity', label: 'Sensitivity', min: 0.25, max: 3, step: 0.25 },
+];
+
+export function GamepadSettingsPanel() {
+  const { gamepad, updateGamepad } = useInputStore();
+
+  return (
+    <div className="space-y-2">
+      {SETTING_SLIDERS.map(slider => (
+        <label key={slider.key} className="flex items-center space-x-2">
+          <span className="text-gray-300 w-24">{slider.label}</span>
+          <input
+            type="range"
+            min={slider.min}
+            max={slider.max}
+            step={slider.step}
+            value={gamepad[slider.key]}
+            onChange={(e) => updateGamepad({ [slider.key]: parseFloat(e.target.value) })}
+            className="w-20"
+          />
+          <span className="text-gray-400 font-mono">{gamepad[slider.key]}</span>
+        </label>
+      ))}
+      <p className="text-gray-400 text-xs">Connect a gamepad and press a button; its mapping is shown at the bottom.</p>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { MOTION_AXES, MotionAxis, MotionSettings, TRANSLATION_AXES } from '@/math/motion';
+import { INPUT_ACTIONS, SPEED_MODIFIER, keyLabel, useInputStore } from '@/store/inputStore';
+
+const actionFor = (axis: MotionAxis, direction: 1 | -1) =>
+  INPUT_ACTIONS.find(action => action.axis === axis && action.direction === direction)!;
+
+const Keys = ({ codes }: { codes: string[] }) => (
+  <>
+    {codes.length === 0 && <span className="text-gray-500">unbound</span>}
+    {codes.map((code, i) => (
+      <React.Fragment key={code}>
+        {i > 0 && ' '}
+        <kbd className="bg-gray-700 px-1 rounded">{keyLabel(code)}</kbd>
+      </React.Fragment>
+    ))}
+  </>
+);
+
+// Summary of the current key bindings, one line per axis
+export function KeyBindingsHelp() {
+  const bindings = useInputStore((state) => state.bindings);
+  const line = (axis: MotionAxis) => (
+    <p key={axis}>
+      <Keys codes={bindings[actionFor(axis, 1).id] ?? []} /> / <Keys codes={bindings[actionFor(axis, -1).id] ?? []} />
+      {' - '}
+      {(TRANSLATION_AXES as string[]).includes(axis) ? `Move ${axis.toUpperCase()} (+/−)` : `${axis.toUpperCase()} plane`}
+    </p>
+  );
+
+  return (
+    <div className="space-y-1 text-gray-300">
+      {TRANSLATION_AXES.map(line)}
+      <p><Keys codes={bindings[SPEED_MODIFIER] ?? []} /> - Faster while held</p>
+      <div className="mt-2">
+        <p className="text-gray-400 text-xs mb-1">4D Rotations:</p>
+        {MOTION_AXES.filter(axis => !(TRANSLATION_AXES as string[]).includes(axis)).map(line)}
+      </div>
+    </div>
+  );
+}
+
+const SETTING_SLIDERS: { key: keyof MotionSettings; label: string; min: number; max: number; step: number }[] = [
+  { key: 'moveSpeed', label: 'Move speed', min: 0.5, max: 20, step: 0.5 },
+  { key: 'rotateSpeed', label: 'Turn speed', min: 0.2, max: 10, step: 0.2 },
+  { key: 'acceleration', label: 'Acceleration', min: 1, max: 40, step: 1 },
+  { key: 'damping', label: 'Damping', min: 1, max: 40, step: 1 },
+  { key: 'boostFactor', label: 'Modifier ×', min: 1, max: 10, step: 0.5 },
+];
+
+// Speeds of keyboard navigation, and rebinding of its keys
+export function InputSettingsPanel() {
+  const { bindings, settings, bind, unbind, updateSettings, resetDefaults } = useInputStore();
+  // Action waiting for a key press to bind
+  const [listening, setListening] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!listening) return;
+    // Captured before KeyboardControls sees the key, so binding does not also move the scene
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.code !== 'Escape') bind(listening, event.code);
+      setListening(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [listening, bind]);
+
+  return (
+    <div className="space-y-2">
+      {SETTING_SLIDERS.map(slider => (
+        <label key={slider.key} className="flex items-center space-x-2">
+          <span className="text-gray-300 w-24">{slider.label}</span>
+          <input
+            type="range"
+            min={slider.min}
+            max={slider.max}
+            step={slider.step}
+            value={settings[slider.key]}
+            onChange={(e) => updateSettings({ [slider.key]: parseFloat(e.target.value) })}
+            className="w-20"
+          />
+          <span className="text-gray-400 font-mono">{settings[slider.key]}</span>
+        </label>
+      ))}
+
+      <div className="space-y-1">
+        {INPUT_ACTIONS.map(action => (
+          <div key={action.id} className="flex items-center space-x-2">
+            <span className="text-gray-300 w-24 shrink-0">{action.label}</span>
+            <div className="flex flex-wrap gap-1">
+              {(bindings[action.id] ?? []).map(code => (
+                <button
+                  key={code}
+                  onClick={() => unbind(action.id, code)}
+                  className="bg-gray-700 hover:bg-red-700 px-1 rounded font-mono"
+                  title="Remove this key"
+                >
+                  {keyLabel(code)}
+                </button>
+              ))}
+              <button
+                onClick={() => setListening(listening === action.id ? null : action.id)}
+                className={`px-1 rounded ${listening === action.id ? 'bg-pink-600' : 'text-gray-500 hover:text-white'}`}
+                title="Bind a key"
+              >
+                {listening === action.id ? 'Press a key…' : '+'}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      {listening && <p className="text-gray-400 text-xs">Esc cancels. A key bound elsewhere moves to this action.</p>}
+      <button onClick={resetDefaults} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600">
+        Reset to defaults
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import React from 'react';
+import { ProjectionSettings, Shape4D, Vector4D } from '@/types/4d';
+import { useViewTransformsForUI } from '@/store/transformStore';
+import { useSelectionStore } from '@/store/selectionStore';
+import { PROJECTIONS, projectPoint } from '@/math/projection';
+import { findShape, incidentEdges, shapeVertex, viewVertex } from '@/math/picking';
+
+const format4D = (v: Vector4D) => `(${v.x.toFixed(2)}, ${v.y.toFixed(2)}, ${v.z.toFixed(2)}, ${v.w.toFixed(2)})`;
+
+// Coordinates of one vertex in shape and view space, and where it is drawn
+function VertexDetails({ shape, index, projection }: { shape: Shape4D; index: number; projection: ProjectionSettings }) {
+  const transforms = useViewTransformsForUI();
+  const view = viewVertex(shape, index, transforms);
+  const strategy = PROJECTIONS[projection.mode];
+  const clipped = strategy.clipDistance !== undefined && strategy.clipDistance(view, projection) < 0;
+  const projected = projectPoint(view, projection);
+
+  return (
+    <div className="space-y-1 font-mono text-xs text-gray-300">
+      <p>Original: {format4D(shapeVertex(shape, index))}</p>
+      <p>Transformed: {format4D(view)}</p>
+      <p>
+        Projected: {clipped
+          ? 'clipped'
+          : `(${projected.x.toFixed(2)}, ${projected.y.toFixed(2)}, ${projected.z.toFixed(2)})`}
+      </p>
+    </div>
+  );
+}
+
+// Details of the selected vertex or edge, or of the hovered one when nothing is selected
+export function InspectorPanel({ shapes, projection }: { shapes: Shape4D[]; projection: ProjectionSettings }) {
+  const selected = useSelectionStore((state) => state.selected);
+  const hovered = useSelectionStore((state) => state.hovered);
+  const setSelected = useSelectionStore((state) => state.setSelected);
+
+  const target = selected ?? hovered;
+  const shape = target ? findShape(shapes, target.shapeId) : undefined;
+  if (!target || !shape) return null;
+  const count = target.kind === 'vertex' ? shape.vertices.length : shape.edges.length;
+  if (target.index >= count) return null;
+
+  const shapeLabel = shape.name ?? target.shapeId;
+
+  return (
+    <div className="absolute bottom-4 right-4 z-10 bg-black/70 backdrop-blur-sm p-4 rounded-lg text-sm w-80">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold">
+          {target.kind === 'vertex' ? 'Vertex' : 'Edge'} {target.index}
+          <span className="text-gray-400 font-normal"> of {shapeLabel}</span>
+        </h3>
+        {selected ? (
+          <button onClick={() => setSelected(null)} className="text-gray-400 hover:text-white">
+            Clear
+          </button>
+        ) : (
+          <span className="text-gray-500 text-xs">hover</span>
+        )}
+      </div>
+
+      {target.kind === 'vertex' ? (
+        <>
+          <VertexDetails shape={shape} index={target.index} projection={projection} />
+          <h4 className="font-semibold mt-3 mb-1">Incident edges:</h4>
+          <div className="max-h-24 overflow-y-auto font-mono text-xs text-gray-300">
+            {incidentEdges(shape, target.index).map(e => {
+              const [a, b] = shape.edges[e];
+              return (
+                <button
+                  key={e}
+                  onClick={() => setSelected({ shapeId: target.shapeId, kind: 'edge', index: e })}
+                  className="block hover:text-white"
+                >
+                  Edge {e}: {a} - {b}
+                </button>
+              );
+            })}
+          </div>
+        </>
+      ) : (
+        shape.edges[target.index].map(vertex => (
+          <div key={vertex} className="mb-2">
+            <button
+              onClick={() => setSelected({ shapeId: target.shapeId, kind: 'vertex', index: vertex })}
+              className="text-gray-200 hover:text-white"
+            >
+              Vertex {vertex}
+            </button>
+            <VertexDetails shape={shape} index={vertex} projection={projection} />
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
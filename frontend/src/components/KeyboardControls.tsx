@@ -1,69 +1,83 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useEffect } from 'react';
 import { useTransformStore } from '@/store/transformStore';
+import { INPUT_ACTIONS, SPEED_MODIFIER, useInputStore } from '@/store/inputStore';
+import { MotionVector, ZERO_MOTION, isAtRest, motionDisplacement, stepMotion } from '@/math/motion';
+import { gamepadInput } from '@/math/gamepad';
 
-export function KeyboardControls() {
-  const updateTransform = useTransformStore((state) => state.updateTransform);
-  const keysPressed = useRef(new Set<string>()).current;
+// Longest step taken at once, so navigation does not jump after the tab was in the background
+const MAX_STEP_SECONDS = 0.1;
+
+// Keys that scroll the page unless their default action is prevented
+const SCROLL_KEYS = ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Space'];
+
+// Typing into a text or number field should not move the scene
+const TEXT_INPUT_TYPES = ['text', 'number', 'search', 'email', 'password', 'url'];
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLInputElement && TEXT_INPUT_TYPES.includes(target.type)) ||
+  (target instanceof HTMLElement && target.isContentEditable);
 
+// Navigation from the held keys and any connected gamepads
+export function KeyboardControls() {
   useEffect(() => {
-    const moveSpeed = 0.12;
-    const rotateSpeed = 0.08;
+    useInputStore.persist.rehydrate();
+
+    // Physical keys currently held, by KeyboardEvent.code
+    const keysPressed = new Set<string>();
+    let velocity: MotionVector = ZERO_MOTION;
+
+    const boundCodes = () => new Set(Object.values(useInputStore.getState().bindings).flat());
 
     const handleKeyDown = (event: KeyboardEvent) => {
-      if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(event.key)) {
-        event.preventDefault();
-      }
-      keysPressed.add(event.key.toLowerCase());
+      if (isTextField(event.target) || !boundCodes().has(event.code)) return;
+      if (SCROLL_KEYS.includes(event.code)) event.preventDefault();
+      keysPressed.add(event.code);
     };
 
     const handleKeyUp = (event: KeyboardEvent) => {
-      keysPressed.delete(event.key.toLowerCase());
+      keysPressed.delete(event.code);
     };
 
+    // Key-up events are lost while the window is in the background
+    const handleBlur = () => keysPressed.clear();
+
     let animationId: number;
-    const updateMovement = () => {
-      if (keysPressed.size > 0) {
-        updateTransform(transform => {
-          // Translation
-          if (keysPressed.has('w') || keysPressed.has('arrowup')) transform.translation.z -= moveSpeed;
-          if (keysPressed.has('s') || keysPressed.has('arrowdown')) transform.translation.z += moveSpeed;
-          if (keysPressed.has('a') || keysPressed.has('arrowleft')) transform.translation.x -= moveSpeed;
-          if (keysPressed.has('d') || keysPressed.has('arrowright')) transform.translation.x += moveSpeed;
-          if (keysPressed.has('q')) transform.translation.y += moveSpeed;
-          if (keysPressed.has('e')) transform.translation.y -= moveSpeed;
-          if (keysPressed.has('z')) transform.translation.w += moveSpeed;
-          if (keysPressed.has('x')) transform.translation.w -= moveSpeed;
-
-          // Rotations
-          if (keysPressed.has('i')) transform.rotation_xy += rotateSpeed;
-          if (keysPressed.has('k')) transform.rotation_xy -= rotateSpeed;
-          if (keysPressed.has('j')) transform.rotation_xz += rotateSpeed;
-          if (keysPressed.has('l')) transform.rotation_xz -= rotateSpeed;
-          if (keysPressed.has('u')) transform.rotation_xw += rotateSpeed;
-          if (keysPressed.has('o')) transform.rotation_xw -= rotateSpeed;
-          if (keysPressed.has('7')) transform.rotation_yz += rotateSpeed;
-          if (keysPressed.has('8')) transform.rotation_yz -= rotateSpeed;
-          if (keysPressed.has('9')) transform.rotation_yw += rotateSpeed;
-          if (keysPressed.has('0')) transform.rotation_yw -= rotateSpeed;
-          if (keysPressed.has(';')) transform.rotation_zw += rotateSpeed;
-          if (keysPressed.has('\'')) transform.rotation_zw -= rotateSpeed;
-        });
+    let last = performance.now();
+    const updateMovement = (now: number) => {
+      const seconds = Math.min((now - last) / 1000, MAX_STEP_SECONDS);
+      last = now;
+
+      const { bindings, settings, gamepad } = useInputStore.getState();
+      const held = (action: string) => (bindings[action] ?? []).some(code => keysPressed.has(code));
+      // Gamepads push along the same axes as the keys
+      const pad = gamepadInput(navigator.getGamepads?.() ?? [], gamepad);
+      const input = pad.input;
+      for (const action of INPUT_ACTIONS) {
+        if (action.axis && action.direction && held(action.id)) input[action.axis] += action.direction;
+      }
+
+      velocity = stepMotion(velocity, input, settings, held(SPEED_MODIFIER) || pad.boosted, seconds);
+      if (!isAtRest(velocity)) {
+        const { delta, rotation } = motionDisplacement(velocity, seconds);
+        useTransformStore.getState().navigate(delta, rotation);
       }
       animationId = requestAnimationFrame(updateMovement);
     };
 
     window.addEventListener('keydown', handleKeyDown, { passive: false });
     window.addEventListener('keyup', handleKeyUp, { passive: true });
+    window.addEventListener('blur', handleBlur);
     animationId = requestAnimationFrame(updateMovement);
 
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
       cancelAnimationFrame(animationId);
     };
-  }, [keysPressed, updateTransform]);
+  }, []);
 
   return null;
 }
@@ -0,0 +1,75 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { DepthCueSettings, LodSettings, ProjectionSettings, Shape4D, Transform4DUtils, Vector4DUtils } from '@/types/4d';
+import { useTransformStore } from '@/store/transformStore';
+import { PROJECTIONS } from '@/math/projection';
+import { MAX_LOD_LEVEL, createLodTiles, decimateLattice, lodDistance, selectLodLevel, tileCenter } from '@/shapes/lod';
+
+// Levels are re-evaluated every this many frames
+const LOD_UPDATE_INTERVAL = 15;
+
+type ShapeRendererProps = {
+  shape: Shape4D;
+  projection: ProjectionSettings;
+  showFaces: boolean;
+  depthCue: DepthCueSettings | null;
+};
+
+// Draws a lattice shape through `renderer`, decimating each tile by its distance from the
+// viewer. The decimated geometry is only rebuilt when some tile changes level.
+export function LodShapeRenderer({
+  renderer: Renderer,
+  lod,
+  ...props
+}: ShapeRendererProps & {
+  renderer: React.ComponentType<ShapeRendererProps>;
+  lod: LodSettings;
+}) {
+  const { shape, projection } = props;
+  const tiles = useMemo(() => createLodTiles(shape.lattice!), [shape.lattice]);
+  const levels = useRef<number[]>([]);
+  const frame = useRef(0);
+  // Vertices the current decimation was built from, to notice a regenerated lattice
+  const source = useRef<Shape4D['vertices'] | null>(null);
+  const [decimated, setDecimated] = useState<Shape4D | null>(null);
+
+  useFrame(({ camera }) => {
+    const stale = source.current !== shape.vertices;
+    if (frame.current++ % LOD_UPDATE_INTERVAL !== 0 && !stale) return;
+
+    const strategy = PROJECTIONS[projection.mode];
+    const transform = Transform4DUtils.shapeToView(shape, useTransformStore.getState());
+    let changed = levels.current.length !== tiles.length;
+    const next = tiles.map((tile, t) => {
+      const view = Vector4DUtils.applyTransform(tileCenter(shape, tile), transform);
+      const current = levels.current[t] ?? 0;
+      // Tiles around or behind the 4D eye get the coarsest level
+      const level = strategy.clipDistance && strategy.clipDistance(view, projection) < 0
+        ? MAX_LOD_LEVEL
+        : selectLodLevel(lodDistance(strategy.project(view, projection), view, camera.position), current, lod);
+      if (level !== current) changed = true;
+      return level;
+    });
+
+    if (changed || stale) {
+      levels.current = next;
+      source.current = shape.vertices;
+      setDecimated(decimateLattice(shape, tiles, next));
+    }
+  });
+
+  // Only the decimated geometry is cached; everything else comes from the current shape, so
+  // edits to its transform, colour or flags show without waiting for a tile to change level
+  const rendered = useMemo<Shape4D | null>(() => decimated && {
+    ...shape,
+    vertices: decimated.vertices,
+    edges: decimated.edges,
+    faces: decimated.faces,
+    cells: undefined,
+    lattice: undefined,
+  }, [decimated, shape]);
+
+  return rendered ? <Renderer {...props} shape={rendered} /> : null;
+}
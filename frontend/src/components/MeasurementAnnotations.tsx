@@ -0,0 +1,132 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { ProjectionSettings, Shape4D } from '@/types/4d';
+import { useTransformStore } from '@/store/transformStore';
+import { useMeasurementStore } from '@/store/measurementStore';
+import { Measurement, evaluateMeasurement, formatMeasurement, isValidVertexRef } from '@/math/measurement';
+import { PROJECTIONS } from '@/math/projection';
+import { findShape, viewVertex } from '@/math/picking';
+
+const MEASUREMENT_COLOR = '#ff66cc';
+
+// Lines between the measured vertices in the projection, with a label comparing the
+// 4D value to the projected one. Both are updated imperatively every frame.
+function MeasurementAnnotation({
+  measurement,
+  shapes,
+  projection
+}: {
+  measurement: Measurement;
+  shapes: Shape4D[];
+  projection: ProjectionSettings;
+}) {
+  const label = useRef<THREE.Group>(null!);
+  const text = useRef<HTMLSpanElement>(null);
+  const geometry = useMemo(() => {
+    const result = new THREE.BufferGeometry();
+    result.setAttribute('position', new THREE.BufferAttribute(new Float32Array(12), 3));
+    return result;
+  }, []);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useFrame(() => {
+    const values = evaluateMeasurement(measurement, shapes, useTransformStore.getState(), projection);
+    const points = values?.points3D ?? [];
+    const positions = geometry.attributes.position as THREE.BufferAttribute;
+
+    // Segments a-b for a distance, a-vertex and vertex-b for an angle
+    let count = 0;
+    for (let i = 0; i + 1 < points.length; i++) {
+      const from = points[i];
+      const to = points[i + 1];
+      if (!from || !to) continue;
+      positions.setXYZ(count++, from.x, from.y, from.z);
+      positions.setXYZ(count++, to.x, to.y, to.z);
+    }
+    geometry.setDrawRange(0, count);
+    positions.needsUpdate = true;
+
+    // Distances are labelled at the midpoint, angles at their vertex
+    const visible = points.filter(p => p !== null);
+    const anchor = measurement.kind === 'angle' ? points[1] : null;
+    if (visible.length > 0 && label.current) {
+      const at = anchor ?? {
+        x: visible.reduce((sum, p) => sum + p!.x, 0) / visible.length,
+        y: visible.reduce((sum, p) => sum + p!.y, 0) / visible.length,
+        z: visible.reduce((sum, p) => sum + p!.z, 0) / visible.length,
+      };
+      label.current.position.set(at.x, at.y, at.z);
+    }
+    if (text.current) {
+      text.current.textContent = values
+        ? `4D ${formatMeasurement(measurement.kind, values.value4D)} · 3D ${formatMeasurement(measurement.kind, values.value3D)}`
+        : 'missing vertex';
+    }
+  });
+
+  return (
+    <>
+      <lineSegments geometry={geometry} frustumCulled={false}>
+        <lineBasicMaterial color={MEASUREMENT_COLOR} depthTest={false} />
+      </lineSegments>
+      <group ref={label}>
+        <Html center style={{ pointerEvents: 'none' }}>
+          <span
+            ref={text}
+            className="whitespace-nowrap rounded bg-black/70 px-1 text-xs font-mono"
+            style={{ color: MEASUREMENT_COLOR }}
+          />
+        </Html>
+      </group>
+    </>
+  );
+}
+
+// Vertices picked so far for a measurement that is not complete yet
+function PendingVertices({ shapes, projection }: { shapes: Shape4D[]; projection: ProjectionSettings }) {
+  const pending = useMeasurementStore((state) => state.pending);
+  const geometry = useMemo(() => {
+    const result = new THREE.BufferGeometry();
+    result.setAttribute('position', new THREE.BufferAttribute(new Float32Array(9), 3));
+    return result;
+  }, []);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useFrame(() => {
+    const transforms = useTransformStore.getState();
+    const strategy = PROJECTIONS[projection.mode];
+    const positions = geometry.attributes.position as THREE.BufferAttribute;
+    let count = 0;
+    for (const ref of pending) {
+      if (!isValidVertexRef(ref, shapes)) continue;
+      const view = viewVertex(findShape(shapes, ref.shapeId)!, ref.index, transforms);
+      if (strategy.clipDistance && strategy.clipDistance(view, projection) < 0) continue;
+      const p = strategy.project(view, projection);
+      positions.setXYZ(count++, p.x, p.y, p.z);
+    }
+    geometry.setDrawRange(0, count);
+    positions.needsUpdate = true;
+  });
+
+  return (
+    <points geometry={geometry} frustumCulled={false}>
+      <pointsMaterial color={MEASUREMENT_COLOR} size={0.2} depthTest={false} />
+    </points>
+  );
+}
+
+export function MeasurementAnnotations({ shapes, projection }: { shapes: Shape4D[]; projection: ProjectionSettings }) {
+  const measurements = useMeasurementStore((state) => state.measurements);
+  return (
+    <group>
+      {measurements.map(measurement => (
+        <MeasurementAnnotation key={measurement.id} measurement={measurement} shapes={shapes} projection={projection} />
+      ))}
+      <PendingVertices shapes={shapes} projection={projection} />
+    </group>
+  );
+}
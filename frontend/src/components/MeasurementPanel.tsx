@@ -0,0 +1,114 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ProjectionSettings, Shape4D } from '@/types/4d';
+import { useViewTransformsForUI } from '@/store/transformStore';
+import { useSelectionStore } from '@/store/selectionStore';
+import { useMeasurementStore } from '@/store/measurementStore';
+import { MEASUREMENT_VERTEX_COUNT, Measurement, VertexRef, evaluateMeasurement, formatMeasurement, isValidVertexRef } from '@/math/measurement';
+import { findShape } from '@/math/picking';
+
+const describeVertex = (ref: VertexRef, shapes: Shape4D[]) =>
+  `${findShape(shapes, ref.shapeId)?.name ?? ref.shapeId} #${ref.index}`;
+
+// Measurement tools: vertices are added by clicking them in the scene or by index, and every
+// measurement is listed with its 4D value next to the value in the current projection
+export function MeasurementPanel({ shapes, projection }: { shapes: Shape4D[]; projection: ProjectionSettings }) {
+  const transforms = useViewTransformsForUI();
+  const { tool, pending, measurements, setTool, addVertex, remove, clear } = useMeasurementStore();
+  const [chosenShapeId, setShapeId] = useState<string | null>(null);
+  const [vertexIndex, setVertexIndex] = useState(0);
+
+  // Vertices clicked in the scene feed the active tool, also when clicked again while selected
+  useEffect(() => useSelectionStore.subscribe((state, previous) => {
+    const selected = state.selected;
+    const changed = selected !== previous.selected || state.pickCount !== previous.pickCount;
+    if (selected && changed && selected.kind === 'vertex') {
+      useMeasurementStore.getState().addVertex({ shapeId: selected.shapeId, index: selected.index });
+    }
+  }), []);
+
+  // Falls back to the first shape until one is chosen, or when the chosen one is hidden
+  const shapeId = chosenShapeId !== null && findShape(shapes, chosenShapeId) ? chosenShapeId : shapes[0]?.id ?? '';
+  const byIndex = { shapeId, index: vertexIndex };
+  const toolButton = (kind: Measurement['kind'], label: string) => (
+    <button
+      onClick={() => setTool(tool === kind ? null : kind)}
+      className={`px-2 py-0.5 rounded ${tool === kind ? 'bg-pink-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        {toolButton('distance', 'Distance')}
+        {toolButton('angle', 'Angle')}
+        {measurements.length > 0 && (
+          <button onClick={clear} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600">
+            Clear
+          </button>
+        )}
+      </div>
+
+      {tool && (
+        <>
+          <p className="text-gray-400 text-xs">
+            Click {MEASUREMENT_VERTEX_COUNT[tool]} vertices{tool === 'angle' ? ', the angle is at the second' : ''}
+            {pending.length > 0 && `: ${pending.map(ref => describeVertex(ref, shapes)).join(', ')}`}
+          </p>
+          <div className="flex items-center space-x-2">
+            <select
+              value={shapeId}
+              onChange={(e) => setShapeId(e.target.value)}
+              className="bg-gray-800 border border-gray-600 rounded px-1 max-w-28"
+            >
+              {shapes.map(shape => (
+                <option key={shape.id} value={shape.id}>{shape.name ?? shape.id}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              value={vertexIndex}
+              onChange={(e) => setVertexIndex(parseInt(e.target.value) || 0)}
+              className="bg-gray-800 border border-gray-600 rounded px-1 w-16"
+            />
+            <button
+              onClick={() => addVertex(byIndex)}
+              disabled={!isValidVertexRef(byIndex, shapes)}
+              className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+            >
+              Add
+            </button>
+          </div>
+        </>
+      )}
+
+      {measurements.map(measurement => {
+        const values = evaluateMeasurement(measurement, shapes, transforms, projection);
+        return (
+          <div key={measurement.id} className="text-xs">
+            <div className="flex items-center justify-between">
+              <span className="text-gray-300">
+                {measurement.kind === 'distance' ? 'Distance' : 'Angle'}{' '}
+                {measurement.vertices.map(ref => describeVertex(ref, shapes)).join(measurement.kind === 'distance' ? ' – ' : ', ')}
+              </span>
+              <button onClick={() => remove(measurement.id)} className="text-gray-500 hover:text-white ml-2">×</button>
+            </div>
+            {values ? (
+              <p className="font-mono text-pink-300">
+                4D {formatMeasurement(measurement.kind, values.value4D)}
+                {' · '}3D {formatMeasurement(measurement.kind, values.value3D)}
+                {values.value3D !== null && values.value4D > 0 && ` (×${(values.value3D / values.value4D).toFixed(2)})`}
+              </p>
+            ) : (
+              <p className="text-gray-500">Vertex no longer in the scene</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { useSceneStore } from '@/store/sceneStore';
+import { useTransformStore } from '@/store/transformStore';
+import { useProjectionStore } from '@/store/projectionStore';
+import { useSelectionStore } from '@/store/selectionStore';
+import { useMeasurementStore } from '@/store/measurementStore';
+import {
+  SceneFormatError,
+  cameraFromFile,
+  objectTransformFromFile,
+  parseScene,
+  projectionFromFile,
+  sceneEntriesFromFile,
+  serializeScene
+} from '@/shapes/sceneFormat';
+
+// Export of the whole scene to a JSON file, and import with validation errors listed
+export function SceneFileControls() {
+  const input = useRef<HTMLInputElement>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const exportScene = () => {
+    const { transform, camera, navigation } = useTransformStore.getState();
+    const file = serializeScene({
+      entries: useSceneStore.getState().entries,
+      navigation,
+      transform,
+      camera,
+      projection: useProjectionStore.getState().settings,
+    });
+    const url = URL.createObjectURL(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'scene.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importScene = async (selected: File) => {
+    try {
+      const file = parseScene(await selected.text());
+      const transform = objectTransformFromFile(file);
+      useSceneStore.getState().reset(sceneEntriesFromFile(file));
+      const { updateTransform, updateCamera, setNavigation } = useTransformStore.getState();
+      updateTransform(current => {
+        current.orientation = transform.orientation;
+        current.translation = transform.translation;
+      });
+      updateCamera(cameraFromFile(file));
+      setNavigation(file.navigation);
+      useProjectionStore.getState().updateSettings(projectionFromFile(file));
+      // Entry ids restart with the loaded scene, so old picks and measurements would land on its shapes
+      useSelectionStore.getState().setSelected(null);
+      useMeasurementStore.getState().clear();
+      setIssues([]);
+    } catch (err) {
+      setIssues(err instanceof SceneFormatError ? err.issues : [err instanceof Error ? err.message : String(err)]);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center space-x-2">
+        <button onClick={exportScene} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600">
+          Export
+        </button>
+        <button onClick={() => input.current?.click()} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600">
+          Import
+        </button>
+        <input
+          ref={input}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const selected = e.target.files?.[0];
+            e.target.value = '';
+            if (selected) importScene(selected);
+          }}
+        />
+      </div>
+      {issues.length > 0 && (
+        <div className="text-red-400 text-xs font-mono max-h-24 overflow-y-auto">
+          <div className="flex items-center justify-between">
+            <span>Could not import the scene:</span>
+            <button onClick={() => setIssues([])} className="text-gray-500 hover:text-white">×</button>
+          </div>
+          {issues.map((issue, i) => <p key={i}>{issue}</p>)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import * as THREE from 'three';
+import { Orientation4DUtils, PlaneAngles4D, Transform4D, Transform4DUtils, Vector4D } from '@/types/4d';
+import { LARGE_SHAPE_VERTEX_COUNT } from '@/shapes/definitions';
+import { SHAPE_GENERATORS, ShapeGenerator, ShapeParams, findGenerator } from '@/shapes/generators';
+import { SceneEntry, isDescendant, useSceneStore } from '@/store/sceneStore';
+
+const GENERATOR_GROUPS = [...new Set(SHAPE_GENERATORS.map(generator => generator.group))];
+
+// Colour inputs only accept #rrggbb, while shapes may use any CSS colour
+const toHexColor = (color: string) => `#${new THREE.Color(color).getHexString()}`;
+
+// Generator parameters of one entry. Generators that report their size are edited as a
+// draft and rebuilt on demand, with the size shown first; the others rebuild live.
+function EntryParams({ entry, generator }: { entry: SceneEntry; generator: ShapeGenerator }) {
+  const setParams = useSceneStore((state) => state.setParams);
+  const [draft, setDraft] = useState<ShapeParams>(entry.params);
+  // Rebuilt or replaced entries, e.g. after loading a scene whose ids match, start a fresh draft
+  useEffect(() => setDraft(entry.params), [entry.params, generator]);
+  const params = generator.count ? draft : entry.params;
+  const counts = generator.count?.(draft);
+  const changed = generator.parameters.some(parameter => draft[parameter.key] !== entry.params[parameter.key]);
+
+  const change = (key: string, value: number) => {
+    const next = { ...params, [key]: value };
+    if (generator.count) {
+      setDraft(next);
+    } else {
+      setParams(entry.id, next);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      {generator.parameters.map(parameter => (
+        <label key={parameter.key} className="flex items-center space-x-2">
+          <span className="text-gray-300 w-20">{parameter.label}</span>
+          <input
+            type="range"
+            min={parameter.min}
+            max={parameter.max}
+            step={parameter.step}
+            value={params[parameter.key]}
+            onChange={(e) => change(parameter.key, parseFloat(e.target.value))}
+            className="w-20"
+          />
+          <span className="text-gray-400 font-mono">{params[parameter.key]}</span>
+        </label>
+      ))}
+      {counts && (
+        <>
+          <div className="flex items-center space-x-2">
+            <p className="text-gray-400 text-xs font-mono">
+              {counts.vertices.toLocaleString()} vertices, {counts.edges.toLocaleString()} edges
+            </p>
+            {changed && (
+              <button onClick={() => setParams(entry.id, draft)} className="px-2 bg-gray-700 hover:bg-gray-600 rounded">
+                Rebuild
+              </button>
+            )}
+          </div>
+          {counts.vertices >= LARGE_SHAPE_VERTEX_COUNT && (
+            <p className="text-amber-400 text-xs">Large shape: building and rendering may be slow</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+const ROTATION_SLIDERS: [keyof PlaneAngles4D, string][] = [
+  ['rotation_xy', 'XY'], ['rotation_xz', 'XZ'], ['rotation_xw', 'XW'],
+  ['rotation_yz', 'YZ'], ['rotation_yw', 'YW'], ['rotation_zw', 'ZW'],
+];
+
+// Local transform of an entry: a translation, and the orientation edited as plane angles
+function TransformEditor({ transform, onChange }: { transform: Transform4D; onChange: (transform: Transform4D) => void }) {
+  const angles = Orientation4DUtils.toAngles(transform.orientation);
+  const slider = (label: string, value: number, min: number, max: number, step: number, set: (value: number) => void, unit = '') => (
+    <label key={label} className="flex items-center space-x-2">
+      <span className="text-gray-300 w-20">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => set(parseFloat(e.target.value))}
+        className="w-20"
+      />
+      <span className="text-gray-400 font-mono">{value.toFixed(unit ? 0 : 1)}{unit}</span>
+    </label>
+  );
+
+  return (
+    <div className="space-y-1">
+      {(['x', 'y', 'z', 'w'] as (keyof Vector4D)[]).map(axis =>
+        slider(`Move ${axis.toUpperCase()}`, transform.translation[axis], -5, 5, 0.1, value =>
+          onChange({ ...transform, translation: { ...transform.translation, [axis]: value } }))
+      )}
+      {ROTATION_SLIDERS.map(([key, plane]) =>
+        slider(`Rotate ${plane}`, angles[key] * 180 / Math.PI, -180, 180, 5, value =>
+          onChange({ ...transform, orientation: Orientation4DUtils.fromAngles({ ...angles, [key]: value * Math.PI / 180 }) }), '°')
+      )}
+      <button onClick={() => onChange(Transform4DUtils.identity())} className="px-2 bg-gray-700 hover:bg-gray-600 rounded">
+        Reset transform
+      </button>
+    </div>
+  );
+}
+
+function SceneEntryRow({ entry, depth }: { entry: SceneEntry; depth: number }) {
+  const { entries, update, remove, duplicate, setParent } = useSceneStore();
+  const [expanded, setExpanded] = useState(false);
+  const generator = entry.generator ? findGenerator(entry.generator) : undefined;
+
+  return (
+    <div style={{ marginLeft: `${depth}rem` }}>
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={entry.visible}
+          onChange={(e) => update(entry.id, { visible: e.target.checked })}
+          className="rounded border-gray-600 text-blue-600 focus:ring-blue-500"
+        />
+        <input
+          type="color"
+          value={toHexColor(entry.color)}
+          onChange={(e) => update(entry.id, { color: e.target.value })}
+          className="w-4 h-4 bg-transparent border-0 p-0 cursor-pointer"
+        />
+        <button onClick={() => setExpanded(!expanded)} className="flex-1 text-left text-gray-300 hover:text-white truncate">
+          {entry.label}
+        </button>
+        <button onClick={() => duplicate(entry.id)} className="text-gray-500 hover:text-white" title="Duplicate">⧉</button>
+        <button onClick={() => remove(entry.id)} className="text-gray-500 hover:text-white" title="Remove">×</button>
+      </div>
+      {expanded && (
+        <div className="ml-6 mt-1 space-y-1">
+          <label className="flex items-center space-x-2">
+            <span className="text-gray-300 w-20">Name</span>
+            <input
+              type="text"
+              value={entry.label}
+              onChange={(e) => update(entry.id, { label: e.target.value })}
+              className="bg-gray-800 border border-gray-600 rounded px-1 w-32"
+            />
+          </label>
+          <label className="flex items-center space-x-2">
+            <span className="text-gray-300 w-20">Parent</span>
+            <select
+              value={entry.parentId ?? ''}
+              onChange={(e) => setParent(entry.id, e.target.value || null)}
+              className="bg-gray-800 border border-gray-600 rounded px-1 w-32"
+            >
+              <option value="">None</option>
+              {entries.filter(other => !isDescendant(entries, other.id, entry.id)).map(other => (
+                <option key={other.id} value={other.id}>{other.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={entry.affectedByGlobalTransform}
+              onChange={(e) => update(entry.id, { affectedByGlobalTransform: e.target.checked })}
+              className="rounded border-gray-600 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-gray-300">Follows navigation</span>
+          </label>
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={entry.depthCue}
+              onChange={(e) => update(entry.id, { depthCue: e.target.checked })}
+              className="rounded border-gray-600 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-gray-300">W depth colouring</span>
+          </label>
+          <TransformEditor transform={entry.transform} onChange={(transform) => update(entry.id, { transform })} />
+          {generator && <EntryParams entry={entry} generator={generator} />}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Entries in depth-first order under their parents, with their depth in the hierarchy
+function sceneTree(entries: SceneEntry[]): { entry: SceneEntry; depth: number }[] {
+  const ids = new Set(entries.map(entry => entry.id));
+  const result: { entry: SceneEntry; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const entry of entries) {
+      const parent = entry.parentId !== null && ids.has(entry.parentId) ? entry.parentId : null;
+      if (parent !== parentId) continue;
+      result.push({ entry, depth });
+      visit(entry.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return result;
+}
+
+// Lists the scene's shapes as a hierarchy and lets them be added, removed, duplicated and edited
+export function ScenePanel() {
+  const entries = useSceneStore((state) => state.entries);
+  const add = useSceneStore((state) => state.add);
+  const [generatorId, setGeneratorId] = useState(SHAPE_GENERATORS[0].id);
+
+  return (
+    <div className="space-y-2">
+      {sceneTree(entries).map(({ entry, depth }) => (
+        <SceneEntryRow key={entry.id} entry={entry} depth={depth} />
+      ))}
+      <div className="flex items-center space-x-2 pt-1">
+        <select
+          value={generatorId}
+          onChange={(e) => setGeneratorId(e.target.value)}
+          className="bg-gray-800 border border-gray-600 rounded px-1 flex-1"
+        >
+          {GENERATOR_GROUPS.map(group => (
+            <optgroup key={group} label={group}>
+              {SHAPE_GENERATORS.filter(generator => generator.group === group).map(generator => (
+                <option key={generator.id} value={generator.id}>{generator.label}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <button onClick={() => add({ generator: generatorId })} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600">
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
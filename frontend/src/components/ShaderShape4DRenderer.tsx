@@ -0,0 +1,320 @@
+'use client';
+
+import React, { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { DepthCueSettings, ProjectionMode, ProjectionSettings, Shape4D, Transform4DUtils, Vector4DUtils } from '@/types/4d';
+import { useTransformStore } from '@/store/transformStore';
+import { AXES_4D, keptAxes } from '@/math/projection';
+
+// Index of each projection mode in the shader's uMode uniform
+const MODE_INDEX: Record<ProjectionMode, number> = {
+  perspective: 0,
+  orthographic: 1,
+  stereographic: 2,
+  oblique: 3,
+  axisDrop: 4,
+};
+
+// Transforms shape-space 4D points to view space and projects them, mirroring the CPU
+// projection strategies in '@/math/projection'. SEGMENT and TRIANGLE builds also receive
+// the other corners of their primitive so near-plane clipping matches the CPU path:
+// segments are cut at the near hyperplane, triangles touching it are dropped.
+const vertexShader = /* glsl */ `
+uniform mat4 uOrientation;
+uniform vec4 uTranslation;
+uniform int uMode;
+uniform float uDistance;
+uniform float uNearClip;
+uniform float uScale;
+uniform vec3 uOblique;
+uniform mat4 uAxisMap;
+uniform vec3 uColor;
+uniform float uOpacity;
+uniform bool uDepthCue;
+uniform vec3 uLowColor;
+uniform vec3 uHighColor;
+uniform vec2 uWRange;
+uniform bool uFade;
+uniform float uFadeDistance;
+uniform float uMinOpacity;
+uniform float uPointSize;
+uniform float uPointScale;
+
+attribute vec4 position4;
+#if defined(SEGMENT) || defined(TRIANGLE)
+attribute vec4 other4;
+#endif
+#ifdef TRIANGLE
+attribute vec4 third4;
+#endif
+
+varying vec4 vColor;
+
+vec4 toView(vec4 p) {
+  return uOrientation * p + uTranslation;
+}
+
+// Signed distance to the near hyperplane, negative behind it
+float clipDistance(vec4 p) {
+  if (uMode == 0) return uDistance - uNearClip - p.w;
+  if (uMode == 2) return length(p) - p.w - uNearClip;
+  return 1.0;
+}
+
+vec3 project(vec4 p) {
+  if (uMode == 0) return p.xyz * (uDistance / max(uDistance - p.w, 0.001)) * uScale;
+  if (uMode == 2) {
+    float radius = length(p);
+    if (radius < 1e-9) return vec3(0.0);
+    return p.xyz * (radius / max(radius - p.w, 1e-3)) * uScale;
+  }
+  if (uMode == 3) return (p.xyz + uOblique * p.w) * uScale;
+  if (uMode == 4) return (uAxisMap * p).xyz * uScale;
+  return p.xyz * uScale;
+}
+
+void main() {
+  vec4 view = toView(position4);
+  float d = clipDistance(view);
+  bool hidden = d < 0.0;
+#ifdef SEGMENT
+  vec4 otherView = toView(other4);
+  float dOther = clipDistance(otherView);
+  if (hidden && dOther >= 0.0) {
+    view = mix(view, otherView, d / (d - dOther));
+    hidden = false;
+  }
+#endif
+#ifdef TRIANGLE
+  hidden = hidden || clipDistance(toView(other4)) < 0.0 || clipDistance(toView(third4)) < 0.0;
+#endif
+  if (hidden) {
+    // Every corner of a hidden primitive lands here, outside the clip volume
+    gl_Position = vec4(0.0, 0.0, 2.0, 1.0);
+    vColor = vec4(0.0);
+    return;
+  }
+
+  vec4 mvPosition = modelViewMatrix * vec4(project(view), 1.0);
+  gl_Position = projectionMatrix * mvPosition;
+#ifdef POINT
+  gl_PointSize = uPointSize * (uPointScale / -mvPosition.z);
+#endif
+
+  vec3 color = uColor;
+  float opacity = uOpacity;
+  if (uDepthCue) {
+    float range = uWRange.y - uWRange.x;
+    float t = range > 0.0 ? clamp((view.w - uWRange.x) / range, 0.0, 1.0) : 0.5;
+    color = mix(uLowColor, uHighColor, t);
+    if (uFade && uFadeDistance > 0.0) {
+      opacity *= 1.0 - min(1.0, abs(view.w) / uFadeDistance) * (1.0 - uMinOpacity);
+    }
+  }
+  vColor = vec4(color, opacity);
+}
+`;
+
+const fragmentShader = /* glsl */ `
+varying vec4 vColor;
+
+void main() {
+  gl_FragColor = vColor;
+  #include <colorspace_fragment>
+}
+`;
+
+// Uniforms shared by all materials of one shape; colour and opacity are per material
+function createSharedUniforms() {
+  return {
+    uOrientation: { value: new THREE.Matrix4() },
+    uTranslation: { value: new THREE.Vector4() },
+    uMode: { value: 0 },
+    uDistance: { value: 0 },
+    uNearClip: { value: 0 },
+    uScale: { value: 1 },
+    uOblique: { value: new THREE.Vector3() },
+    uAxisMap: { value: new THREE.Matrix4() },
+    uDepthCue: { value: false },
+    uLowColor: { value: new THREE.Color() },
+    uHighColor: { value: new THREE.Color() },
+    uWRange: { value: new THREE.Vector2() },
+    uFade: { value: false },
+    uFadeDistance: { value: 0 },
+    uMinOpacity: { value: 1 },
+    uPointSize: { value: 1 },
+    uPointScale: { value: 1 },
+  };
+}
+
+type SharedUniforms = ReturnType<typeof createSharedUniforms>;
+
+function createMaterial(shared: SharedUniforms, define: string, color: string, opacity: number) {
+  return new THREE.ShaderMaterial({
+    vertexShader,
+    fragmentShader,
+    defines: { [define]: '' },
+    uniforms: {
+      ...shared,
+      uColor: { value: new THREE.Color(color) },
+      uOpacity: { value: opacity },
+    },
+  });
+}
+
+// Same output as Shape4DRenderer, but the 4D vertices are uploaded once and transformed,
+// clipped and projected in the vertex shader. Per frame only the uniforms change.
+export function ShaderShape4DRenderer({
+  shape,
+  projection,
+  showFaces,
+  depthCue
+}: {
+  shape: Shape4D;
+  projection: ProjectionSettings;
+  showFaces: boolean;
+  depthCue: DepthCueSettings | null;
+}) {
+  const { vertices, edges, faces, position } = shape;
+
+  // Each primitive corner carries its own 4D point and those of the primitive's other corners
+  const geometries = useMemo(() => {
+    const write = (array: Float32Array, offset: number, index: number) => {
+      const v = Vector4DUtils.add(vertices[index], position);
+      array[offset] = v.x;
+      array[offset + 1] = v.y;
+      array[offset + 2] = v.z;
+      array[offset + 3] = v.w;
+    };
+
+    const pointPositions = new Float32Array(vertices.length * 4);
+    vertices.forEach((_, i) => write(pointPositions, i * 4, i));
+    const points = new THREE.BufferGeometry();
+    points.setAttribute('position4', new THREE.BufferAttribute(pointPositions, 4));
+    points.setDrawRange(0, vertices.length);
+
+    const segmentPositions = new Float32Array(edges.length * 8);
+    const segmentOthers = new Float32Array(edges.length * 8);
+    edges.forEach(([a, b], e) => {
+      write(segmentPositions, e * 8, a);
+      write(segmentPositions, e * 8 + 4, b);
+      write(segmentOthers, e * 8, b);
+      write(segmentOthers, e * 8 + 4, a);
+    });
+    const lines = new THREE.BufferGeometry();
+    lines.setAttribute('position4', new THREE.BufferAttribute(segmentPositions, 4));
+    lines.setAttribute('other4', new THREE.BufferAttribute(segmentOthers, 4));
+    lines.setDrawRange(0, edges.length * 2);
+
+    // Faces are triangulated as fans
+    const corners: number[][] = [];
+    for (const face of faces ?? []) {
+      for (let i = 1; i < face.length - 1; i++) {
+        corners.push([face[0], face[i], face[i + 1]]);
+      }
+    }
+    const triangleAttributes = [0, 1, 2].map(() => new Float32Array(corners.length * 12));
+    corners.forEach((triangle, t) => {
+      for (let k = 0; k < 3; k++) {
+        for (let role = 0; role < 3; role++) {
+          write(triangleAttributes[role], (t * 3 + k) * 4, triangle[(k + role) % 3]);
+        }
+      }
+    });
+    const triangles = new THREE.BufferGeometry();
+    triangles.setAttribute('position4', new THREE.BufferAttribute(triangleAttributes[0], 4));
+    triangles.setAttribute('other4', new THREE.BufferAttribute(triangleAttributes[1], 4));
+    triangles.setAttribute('third4', new THREE.BufferAttribute(triangleAttributes[2], 4));
+    triangles.setDrawRange(0, corners.length * 3);
+
+    return { points, lines, triangles, triangleCount: corners.length };
+  }, [vertices, edges, faces, position]);
+
+  useEffect(() => () => {
+    geometries.points.dispose();
+    geometries.lines.dispose();
+    geometries.triangles.dispose();
+  }, [geometries]);
+
+  const color = shape.color || '#ffffff';
+  const materials = useMemo(() => {
+    const shared = createSharedUniforms();
+    const faceMaterial = createMaterial(shared, 'TRIANGLE', color, 0.15);
+    faceMaterial.transparent = true;
+    faceMaterial.depthWrite = false;
+    faceMaterial.side = THREE.DoubleSide;
+    return {
+      shared,
+      lines: createMaterial(shared, 'SEGMENT', color, 1),
+      points: createMaterial(shared, 'POINT', '#ff6b6b', 1),
+      faces: faceMaterial,
+    };
+  }, [color]);
+
+  useEffect(() => () => {
+    materials.lines.dispose();
+    materials.points.dispose();
+    materials.faces.dispose();
+  }, [materials]);
+
+  // Depth cue settings only change through the UI, not every frame
+  useEffect(() => {
+    const { shared } = materials;
+    shared.uDepthCue.value = depthCue !== null;
+    if (depthCue) {
+      shared.uLowColor.value.set(depthCue.lowColor);
+      shared.uHighColor.value.set(depthCue.highColor);
+      shared.uWRange.value.set(depthCue.wMin, depthCue.wMax);
+      shared.uFade.value = depthCue.fade;
+      shared.uFadeDistance.value = depthCue.fadeDistance;
+      shared.uMinOpacity.value = depthCue.minOpacity;
+    }
+    const fade = depthCue !== null && depthCue.fade;
+    for (const material of [materials.lines, materials.points]) {
+      material.transparent = fade;
+      material.depthWrite = !fade;
+    }
+  }, [materials, depthCue]);
+
+  useFrame((state) => {
+    const { shared } = materials;
+    const { orientation: m, translation: t } = Transform4DUtils.shapeToView(shape, useTransformStore.getState());
+    shared.uOrientation.value.set(
+      m[0][0], m[0][1], m[0][2], m[0][3],
+      m[1][0], m[1][1], m[1][2], m[1][3],
+      m[2][0], m[2][1], m[2][2], m[2][3],
+      m[3][0], m[3][1], m[3][2], m[3][3]
+    );
+    shared.uTranslation.value.set(t.x, t.y, t.z, t.w);
+
+    shared.uMode.value = MODE_INDEX[projection.mode];
+    shared.uDistance.value = projection.distance;
+    shared.uNearClip.value = projection.nearClip;
+    shared.uScale.value = projection.scale;
+    const d = projection.obliqueDirection;
+    const length = Math.hypot(d.x, d.y, d.z) || 1;
+    shared.uOblique.value.set(d.x, d.y, d.z).multiplyScalar(projection.obliqueFactor / length);
+    // Row i picks the i-th kept axis of the axis-drop projection (elements are column-major)
+    const axisMap = shared.uAxisMap.value.makeScale(0, 0, 0);
+    axisMap.elements[15] = 0;
+    keptAxes(projection.droppedAxis).forEach((axis, row) => {
+      axisMap.elements[AXES_4D.indexOf(axis) * 4 + row] = 1;
+    });
+
+    // Same point size attenuation as PointsMaterial with size 0.05
+    shared.uPointSize.value = 0.05 * state.gl.getPixelRatio();
+    shared.uPointScale.value = state.size.height / 2;
+  });
+
+  // Projected positions only exist on the GPU, so the geometries have no usable bounds
+  return (
+    <group>
+      {showFaces && geometries.triangleCount > 0 && (
+        <mesh geometry={geometries.triangles} material={materials.faces} frustumCulled={false} />
+      )}
+      <lineSegments geometry={geometries.lines} material={materials.lines} frustumCulled={false} />
+      <points geometry={geometries.points} material={materials.points} frustumCulled={false} />
+    </group>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { ProjectionSettings, Shape4D, Transform4DUtils, Vector4DUtils } from '@/types/4d';
+import { useTransformStore } from '@/store/transformStore';
+import { useSelectionStore } from '@/store/selectionStore';
+import { Mat4Buffer, Vec4Buffer } from '@/math/buffer4d';
+import { PROJECTIONS, clipSegment, projectPoint } from '@/math/projection';
+import { PickTarget, distanceToSegment2D, findShape, viewVertex } from '@/math/picking';
+
+// How close to the pointer, in pixels, an element has to be to be picked
+const PICK_RADIUS = 8;
+// Pointer travel, in pixels, after which a press counts as a drag rather than a click
+const CLICK_TOLERANCE = 4;
+
+// Per-shape buffers: shape-space and view-space vertices, and screen positions in pixels
+// (NaN for vertices clipped by the near hyperplane or behind the camera)
+interface PickBuffers {
+  // Vertices the buffers were built from, which change when the shape is regenerated
+  vertices: Shape4D['vertices'];
+  local: Float64Array;
+  view: Float64Array;
+  screen: Float32Array;
+}
+
+// Picks the projected vertex or edge under the pointer on the CPU, independently of the
+// renderer, and stores it as hovered; a click without dragging selects it
+export function ShapePicker({ shapes, projection }: { shapes: Shape4D[]; projection: ProjectionSettings }) {
+  const gl = useThree((state) => state.gl);
+  // Buffers by scene entry id, since duplicated entries share their vertices
+  const buffers = useRef(new Map<string, PickBuffers>());
+  const inside = useRef(false);
+  // Inputs of the last pick, which is skipped while none of them change
+  const last = useRef({ x: NaN, y: NaN, transform: null as unknown, cameraView: null as unknown, camera: new THREE.Matrix4(), shapes: [] as Shape4D[], projection });
+
+  const scratch = useMemo(() => ({
+    orientation: Mat4Buffer.create(),
+    translation: new Float64Array(4),
+    point: { x: 0, y: 0, z: 0, w: 0 },
+    ndc: new THREE.Vector3(),
+  }), []);
+  // Picks refer to shapes by scene entry id, so shapes without one cannot be picked
+  const pickable = useMemo(() => shapes.filter(shape => shape.id !== undefined), [shapes]);
+
+  useEffect(() => {
+    const element = gl.domElement;
+    let down: { x: number; y: number } | null = null;
+    const onMove = () => { inside.current = true; };
+    const onLeave = () => {
+      inside.current = false;
+      useSelectionStore.getState().setHovered(null);
+    };
+    const onDown = (event: PointerEvent) => { down = { x: event.clientX, y: event.clientY }; };
+    const onUp = (event: PointerEvent) => {
+      if (down && Math.hypot(event.clientX - down.x, event.clientY - down.y) <= CLICK_TOLERANCE) {
+        const { hovered, pick } = useSelectionStore.getState();
+        pick(hovered);
+      }
+      down = null;
+    };
+    element.addEventListener('pointermove', onMove);
+    element.addEventListener('pointerleave', onLeave);
+    element.addEventListener('pointerdown', onDown);
+    element.addEventListener('pointerup', onUp);
+    return () => {
+      element.removeEventListener('pointermove', onMove);
+      element.removeEventListener('pointerleave', onLeave);
+      element.removeEventListener('pointerdown', onDown);
+      element.removeEventListener('pointerup', onUp);
+    };
+  }, [gl]);
+
+  useFrame(({ camera, pointer, size }) => {
+    if (!inside.current) return;
+    const transforms = useTransformStore.getState();
+    const { transform, view: cameraView } = transforms;
+    const previous = last.current;
+    if (
+      previous.x === pointer.x && previous.y === pointer.y &&
+      previous.transform === transform && previous.cameraView === cameraView &&
+      previous.camera.equals(camera.matrixWorld) && previous.shapes === shapes && previous.projection === projection
+    ) return;
+    last.current = { x: pointer.x, y: pointer.y, transform, cameraView, camera: previous.camera.copy(camera.matrixWorld), shapes, projection };
+
+    const strategy = PROJECTIONS[projection.mode];
+    const { orientation, translation, point, ndc } = scratch;
+    const px = (pointer.x + 1) * size.width / 2;
+    const py = (1 - pointer.y) * size.height / 2;
+
+    let best: PickTarget | null = null;
+    let bestDistance = PICK_RADIUS;
+    const screens: Float32Array[] = [];
+
+    pickable.forEach(shape => {
+      let entry = buffers.current.get(shape.id!);
+      if (!entry || entry.vertices !== shape.vertices) {
+        const count = shape.vertices.length;
+        entry = {
+          vertices: shape.vertices,
+          local: Vec4Buffer.fromPoints(shape.vertices.map(v => Vector4DUtils.add(v, shape.position)), new Float64Array(count * 4)),
+          view: new Float64Array(count * 4),
+          screen: new Float32Array(count * 2),
+        };
+        buffers.current.set(shape.id!, entry);
+      }
+      const { local, view, screen } = entry;
+      const count = shape.vertices.length;
+      const toView = Transform4DUtils.shapeToView(shape, transforms);
+      Mat4Buffer.fromRows(toView.orientation, orientation);
+      translation.set([toView.translation.x, toView.translation.y, toView.translation.z, toView.translation.w]);
+      Vec4Buffer.transformPoints(orientation, translation, local, view, count);
+
+      for (let i = 0; i < count; i++) {
+        point.x = view[i * 4];
+        point.y = view[i * 4 + 1];
+        point.z = view[i * 4 + 2];
+        point.w = view[i * 4 + 3];
+        screen[i * 2] = NaN;
+        screen[i * 2 + 1] = NaN;
+        if (strategy.clipDistance && strategy.clipDistance(point, projection) < 0) continue;
+        const p = strategy.project(point, projection);
+        ndc.set(p.x, p.y, p.z).project(camera);
+        if (ndc.z > 1) continue;
+        const sx = (ndc.x + 1) * size.width / 2;
+        const sy = (1 - ndc.y) * size.height / 2;
+        screen[i * 2] = sx;
+        screen[i * 2 + 1] = sy;
+        const distance = Math.hypot(sx - px, sy - py);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = { shapeId: shape.id!, kind: 'vertex', index: i };
+        }
+      }
+      screens.push(screen);
+    });
+
+    // Vertices take precedence, edges are only picked when no vertex is in range
+    if (!best) {
+      pickable.forEach((shape, shapeIndex) => {
+        const screen = screens[shapeIndex];
+        shape.edges.forEach(([a, b], e) => {
+          // Edges with a clipped end are skipped rather than cut for picking
+          if (Number.isNaN(screen[a * 2]) || Number.isNaN(screen[b * 2])) return;
+          const distance = distanceToSegment2D(px, py, screen[a * 2], screen[a * 2 + 1], screen[b * 2], screen[b * 2 + 1]);
+          if (distance < bestDistance) {
+            bestDistance = distance;
+            best = { shapeId: shape.id!, kind: 'edge', index: e };
+          }
+        });
+      });
+    }
+
+    useSelectionStore.getState().setHovered(best);
+  });
+
+  // Drop buffers of shapes that are gone
+  useEffect(() => {
+    const live = new Set(shapes.map(shape => shape.id));
+    for (const key of buffers.current.keys()) {
+      if (!live.has(key)) buffers.current.delete(key);
+    }
+  }, [shapes]);
+
+  return (
+    <>
+      <PickHighlight shapes={shapes} projection={projection} target="hovered" color="#ffff66" />
+      <PickHighlight shapes={shapes} projection={projection} target="selected" color="#66ffff" />
+    </>
+  );
+}
+
+// Marks the hovered or selected element: a point for a vertex, a line for an edge
+function PickHighlight({
+  shapes,
+  projection,
+  target,
+  color
+}: {
+  shapes: Shape4D[];
+  projection: ProjectionSettings;
+  target: 'hovered' | 'selected';
+  color: string;
+}) {
+  const pick = useSelectionStore((state) => state[target]);
+  const geometry = useMemo(() => {
+    const result = new THREE.BufferGeometry();
+    result.setAttribute('position', new THREE.BufferAttribute(new Float32Array(6), 3));
+    return result;
+  }, []);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  const shape = pick ? findShape(shapes, pick.shapeId) : undefined;
+  const valid = pick !== null && shape !== undefined &&
+    pick.index < (pick.kind === 'vertex' ? shape.vertices.length : shape.edges.length);
+
+  useFrame(() => {
+    if (!valid || !pick || !shape) return;
+    const transforms = useTransformStore.getState();
+    const positions = geometry.attributes.position as THREE.BufferAttribute;
+    if (pick.kind === 'vertex') {
+      const view = viewVertex(shape, pick.index, transforms);
+      const strategy = PROJECTIONS[projection.mode];
+      const visible = !strategy.clipDistance || strategy.clipDistance(view, projection) >= 0;
+      const p = projectPoint(view, projection);
+      positions.setXYZ(0, p.x, p.y, p.z);
+      geometry.setDrawRange(0, visible ? 1 : 0);
+    } else {
+      const [a, b] = shape.edges[pick.index];
+      const visible = clipSegment(viewVertex(shape, a, transforms), viewVertex(shape, b, transforms), projection);
+      visible?.forEach((point, i) => {
+        const p = projectPoint(point, projection);
+        positions.setXYZ(i, p.x, p.y, p.z);
+      });
+      geometry.setDrawRange(0, visible ? 2 : 0);
+    }
+    positions.needsUpdate = true;
+  });
+
+  if (!valid || !pick) return null;
+  return pick.kind === 'vertex' ? (
+    <points geometry={geometry} frustumCulled={false} renderOrder={1}>
+      <pointsMaterial color={color} size={0.18} depthTest={false} />
+    </points>
+  ) : (
+    <lineSegments geometry={geometry} frustumCulled={false} renderOrder={1}>
+      <lineBasicMaterial color={color} depthTest={false} />
+    </lineSegments>
+  );
+}
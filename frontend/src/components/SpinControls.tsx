@@ -0,0 +1,112 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { ROTATION_PLANES, Vector4DUtils } from '@/types/4d';
+import { Bivector4D, ZERO_BIVECTOR, planeRates, rotationFromBivector } from '@/math/rotation';
+import { useSpinStore } from '@/store/spinStore';
+import { useTransformStore } from '@/store/transformStore';
+
+const DEG = Math.PI / 180;
+
+// Longest step taken at once, so the object does not jump after the tab was in the background
+const MAX_STEP_SECONDS = 0.1;
+
+const PRESETS: { label: string; velocity: Bivector4D }[] = [
+  { label: 'Simple', velocity: { ...ZERO_BIVECTOR, xw: 30 * DEG } },
+  { label: 'Double', velocity: { ...ZERO_BIVECTOR, xy: 40 * DEG, zw: 15 * DEG } },
+  // Equal rates in XY and ZW turn every point by the same angle. With the same sign it is
+  // p -> q p for a unit quaternion q, with opposite signs p -> p q.
+  { label: 'Left isoclinic', velocity: { ...ZERO_BIVECTOR, xy: 30 * DEG, zw: 30 * DEG } },
+  { label: 'Right isoclinic', velocity: { ...ZERO_BIVECTOR, xy: 30 * DEG, zw: -30 * DEG } },
+];
+
+// The bivector as a sum over the planes with a nonzero rate, e.g. "30 XY − 15 ZW °/s"
+function formatBivector(velocity: Bivector4D): string {
+  const terms = ROTATION_PLANES
+    .map(plane => ({ plane, rate: Math.round(velocity[plane] / DEG) }))
+    .filter(term => term.rate !== 0);
+  if (terms.length === 0) return '0';
+  const sum = terms
+    .map(({ plane, rate }, i) => `${rate < 0 ? (i ? '− ' : '−') : (i ? '+ ' : '')}${Math.abs(rate)} ${plane.toUpperCase()}`)
+    .join(' ');
+  return `${sum} °/s`;
+}
+
+function describe([first, second]: [number, number]): string {
+  if (first < 1e-6) return 'At rest';
+  if (second < 1e-6) return 'Simple rotation';
+  if (Math.abs(first - second) < 1e-6) return 'Isoclinic rotation';
+  return 'Double rotation';
+}
+
+// Turns the object transform at a constant angular velocity, set per plane or from presets
+export function SpinControls() {
+  const { velocity, running, setRate, setVelocity, setRunning, stop } = useSpinStore();
+  const rates = planeRates(velocity);
+  const moving = rates[0] > 0;
+
+  // Each frame turns by the velocity times the time elapsed, in the world's coordinate planes
+  useEffect(() => {
+    if (!running || !moving) return;
+    let animationId: number;
+    let last = performance.now();
+    const step = (now: number) => {
+      const seconds = Math.min((now - last) / 1000, MAX_STEP_SECONDS);
+      last = now;
+      const rotation = rotationFromBivector(useSpinStore.getState().velocity, seconds);
+      useTransformStore.getState().updateTransform(transform => {
+        transform.orientation = Vector4DUtils.matrixMultiplyMatrix(rotation, transform.orientation);
+      });
+      animationId = requestAnimationFrame(step);
+    };
+    animationId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(animationId);
+  }, [running, moving]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => setVelocity(preset.velocity)}
+            className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+      {ROTATION_PLANES.map(plane => (
+        <label key={plane} className="flex items-center space-x-2">
+          <span className="text-gray-300 w-16">{plane.toUpperCase()}</span>
+          <input
+            type="range"
+            min="-90"
+            max="90"
+            step="5"
+            value={Math.round(velocity[plane] / DEG)}
+            onChange={(e) => setRate(plane, parseFloat(e.target.value) * DEG)}
+            className="w-24"
+          />
+          <span className="text-gray-400 font-mono">{Math.round(velocity[plane] / DEG)}°/s</span>
+        </label>
+      ))}
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => setRunning(!running)}
+          disabled={!moving}
+          className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+        >
+          {running ? 'Pause' : 'Resume'}
+        </button>
+        <button onClick={stop} disabled={!moving} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50">
+          Stop
+        </button>
+      </div>
+      <div className="text-gray-400 text-xs font-mono">
+        <p>ω = {formatBivector(velocity)}</p>
+        <p>{describe(rates)}: {(rates[0] / DEG).toFixed(1)}°/s, {(rates[1] / DEG).toFixed(1)}°/s</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { EASINGS, Easing, ViewPose, sampleKeyframes } from '@/math/animation';
+import { useTimelineStore } from '@/store/timelineStore';
+import { useTransformStore } from '@/store/transformStore';
+import { useProjectionStore } from '@/store/projectionStore';
+import { useSceneStore } from '@/store/sceneStore';
+
+// The current view, as a keyframe records it
+function currentPose(): ViewPose {
+  const { transform, camera } = useTransformStore.getState();
+  return {
+    transform,
+    camera,
+    distance: useProjectionStore.getState().settings.distance,
+    visible: useSceneStore.getState().entries.filter(entry => entry.visible).map(entry => entry.id),
+  };
+}
+
+function applyPose(pose: ViewPose) {
+  const { updateTransform, updateCamera } = useTransformStore.getState();
+  updateTransform(transform => {
+    transform.orientation = pose.transform.orientation;
+    transform.translation = pose.transform.translation;
+  });
+  updateCamera(pose.camera);
+
+  const { settings, updateSettings } = useProjectionStore.getState();
+  if (settings.distance !== pose.distance) updateSettings({ distance: pose.distance });
+
+  const visible = new Set(pose.visible);
+  const { entries, update } = useSceneStore.getState();
+  for (const entry of entries) {
+    if (entry.visible !== visible.has(entry.id)) update(entry.id, { visible: visible.has(entry.id) });
+  }
+}
+
+// Keyframes of the view, captured at the playhead and played back with the rotations
+// interpolated along geodesics
+export function TimelinePanel() {
+  const {
+    keyframes, time, duration, playing, loop,
+    capture, updateKeyframe, remove, clear, setTime, setDuration, setPlaying, setLoop,
+  } = useTimelineStore();
+
+  // Moving the playhead, by scrubbing or playing, shows the pose at that time
+  useEffect(() => useTimelineStore.subscribe((state, previous) => {
+    if (state.time === previous.time) return;
+    const pose = sampleKeyframes(state.keyframes, state.time);
+    if (pose) applyPose(pose);
+  }), []);
+
+  useEffect(() => {
+    if (!playing) return;
+    let animationId: number;
+    let last = performance.now();
+    const step = (now: number) => {
+      const { keyframes, time, loop: looping } = useTimelineStore.getState();
+      if (keyframes.length < 2) {
+        setPlaying(false);
+        return;
+      }
+      const start = keyframes[0].time;
+      const end = keyframes[keyframes.length - 1].time;
+      let next = time + (now - last) / 1000;
+      last = now;
+      if (next >= end) {
+        if (!looping || end <= start) {
+          setTime(end);
+          setPlaying(false);
+          return;
+        }
+        next = start + ((next - end) % (end - start));
+      }
+      setTime(next);
+      animationId = requestAnimationFrame(step);
+    };
+    animationId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(animationId);
+  }, [playing, setTime, setPlaying]);
+
+  const play = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    const start = keyframes[0].time;
+    const end = keyframes[keyframes.length - 1].time;
+    if (time < start || time >= end) setTime(start);
+    setPlaying(true);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <button onClick={() => capture(currentPose())} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600">
+          Add keyframe
+        </button>
+        <button
+          onClick={play}
+          disabled={keyframes.length < 2}
+          className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+        >
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <label className="flex items-center space-x-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={loop}
+            onChange={(e) => setLoop(e.target.checked)}
+            className="rounded border-gray-600 text-blue-600 focus:ring-blue-500"
+          />
+          <span className="text-gray-300">Loop</span>
+        </label>
+      </div>
+
+      <div>
+        {/* Keyframe markers above the scrub bar; clicking one jumps to it */}
+        <div className="relative h-3">
+          {keyframes.map(keyframe => (
+            <button
+              key={keyframe.id}
+              onClick={() => setTime(keyframe.time)}
+              title={`${keyframe.time.toFixed(2)} s`}
+              className="absolute top-0 w-2 h-2 -ml-1 rotate-45 bg-yellow-400 hover:bg-white"
+              style={{ left: `${Math.min(keyframe.time / duration, 1) * 100}%` }}
+            />
+          ))}
+        </div>
+        <input
+          type="range"
+          min="0"
+          max={duration}
+          step="0.01"
+          value={time}
+          onChange={(e) => {
+            setPlaying(false);
+            setTime(parseFloat(e.target.value));
+          }}
+          className="w-full"
+        />
+        <div className="flex items-center justify-between text-gray-400 font-mono">
+          <span>{time.toFixed(2)} s</span>
+          <label className="flex items-center space-x-1">
+            <span>Length</span>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={duration}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (value > 0) setDuration(value);
+              }}
+              className="bg-gray-800 border border-gray-600 rounded px-1 w-14"
+            />
+            <span>s</span>
+          </label>
+        </div>
+      </div>
+
+      {keyframes.map(keyframe => (
+        <div key={keyframe.id} className="flex items-center space-x-2">
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            value={keyframe.time}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (value >= 0) updateKeyframe(keyframe.id, { time: value });
+            }}
+            className="bg-gray-800 border border-gray-600 rounded px-1 w-16"
+          />
+          <select
+            value={keyframe.easing}
+            onChange={(e) => updateKeyframe(keyframe.id, { easing: e.target.value as Easing })}
+            className="bg-gray-800 border border-gray-600 rounded px-1"
+            title="Easing towards the next keyframe"
+          >
+            {(Object.keys(EASINGS) as Easing[]).map(easing => (
+              <option key={easing} value={easing}>{EASINGS[easing].label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => updateKeyframe(keyframe.id, currentPose())}
+            className="text-gray-500 hover:text-white"
+            title="Replace with the current view"
+          >
+            ⟳
+          </button>
+          <button onClick={() => remove(keyframe.id)} className="text-gray-500 hover:text-white" title="Remove">×</button>
+        </div>
+      ))}
+      {keyframes.length > 0 && (
+        <button onClick={clear} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600">
+          Clear keyframes
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useTransformStore } from '@/store/transformStore';
+import { useProjectionStore } from '@/store/projectionStore';
+import { useSceneStore } from '@/store/sceneStore';
+import { decodeViewLink, encodeViewLink } from '@/shapes/viewLink';
+
+// Delay after the last change before the URL is rewritten, so navigating does not flood history
+const UPDATE_DELAY_MS = 300;
+
+// Restores the view from the URL hash on load, and keeps the hash up to date afterwards
+export function ViewLinkSync() {
+  useEffect(() => {
+    const link = decodeViewLink(window.location.hash);
+    const { updateTransform, updateCamera, setNavigation } = useTransformStore.getState();
+    if (link.transform) {
+      const { orientation, translation } = link.transform;
+      updateTransform(current => {
+        current.orientation = orientation;
+        current.translation = translation;
+      });
+    }
+    if (link.camera) updateCamera(link.camera);
+    if (link.navigation) setNavigation(link.navigation);
+    if (link.projection) useProjectionStore.getState().updateSettings(link.projection);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const write = () => {
+      const { transform, camera, navigation } = useTransformStore.getState();
+      const entries = useSceneStore.getState().entries;
+      const hash = encodeViewLink({
+        navigation,
+        transform,
+        camera,
+        projection: useProjectionStore.getState().settings,
+        visible: entries.filter(entry => entry.visible).map(entry => entry.id),
+      });
+      window.history.replaceState(null, '', `#${hash}`);
+    };
+    const scheduleWrite = () => {
+      // Until the scene is loaded the link's visible shapes cannot be applied, nor written back
+      if (useSceneStore.getState().entries.length === 0) return;
+      clearTimeout(timer);
+      timer = setTimeout(write, UPDATE_DELAY_MS);
+    };
+
+    // The scene is filled in after loading, so visibility is applied once it first has entries
+    let pendingVisible = link.visible ? new Set(link.visible) : null;
+    const applyVisible = () => {
+      const { entries, update } = useSceneStore.getState();
+      if (!pendingVisible || entries.length === 0) return;
+      const visible = pendingVisible;
+      pendingVisible = null;
+      for (const entry of entries) {
+        if (entry.visible !== visible.has(entry.id)) update(entry.id, { visible: visible.has(entry.id) });
+      }
+    };
+    applyVisible();
+    scheduleWrite();
+
+    const unsubscribers = [
+      useTransformStore.subscribe(scheduleWrite),
+      useProjectionStore.subscribe(scheduleWrite),
+      useSceneStore.subscribe(() => {
+        applyVisible();
+        scheduleWrite();
+      }),
+    ];
+    return () => {
+      clearTimeout(timer);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, []);
+
+  return null;
+}
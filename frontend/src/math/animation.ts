@@ -0,0 +1,63 @@
+import { Camera4D, Transform4D } from '@/types/4d';
+import { lerp4D } from '@/math/projection';
+import { interpolateOrientation } from '@/math/rotation';
+
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+export const EASINGS: Record<Easing, { label: string; apply: (t: number) => number }> = {
+  linear: { label: 'Linear', apply: t => t },
+  easeIn: { label: 'Ease in', apply: t => t * t * t },
+  easeOut: { label: 'Ease out', apply: t => 1 - (1 - t) ** 3 },
+  easeInOut: { label: 'Ease in-out', apply: t => (t < 0.5 ? 4 * t * t * t : 1 - (2 - 2 * t) ** 3 / 2) },
+};
+
+// The parts of the view a keyframe records
+export interface ViewPose {
+  transform: Transform4D;
+  camera: Camera4D;
+  // Perspective eye distance of the projection
+  distance: number;
+  // Ids of the visible scene shapes
+  visible: string[];
+}
+
+export interface Keyframe extends ViewPose {
+  id: number;
+  // Seconds from the start of the timeline
+  time: number;
+  // Easing of the segment from this keyframe to the next
+  easing: Easing;
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Rotations follow the geodesic between the keyframes, everything numeric is lerped and
+// visibility switches at the keyframes since it cannot be blended
+export function interpolatePose(from: ViewPose, to: ViewPose, t: number): ViewPose {
+  return {
+    transform: {
+      orientation: interpolateOrientation(from.transform.orientation, to.transform.orientation, t),
+      translation: lerp4D(from.transform.translation, to.transform.translation, t),
+    },
+    camera: {
+      position: lerp4D(from.camera.position, to.camera.position, t),
+      orientation: interpolateOrientation(from.camera.orientation, to.camera.orientation, t),
+      fov: lerp(from.camera.fov, to.camera.fov, t),
+    },
+    distance: lerp(from.distance, to.distance, t),
+    visible: t < 1 ? from.visible : to.visible,
+  };
+}
+
+// The pose at `time` on a timeline of keyframes sorted by time. Before the first and after
+// the last keyframe the pose holds still.
+export function sampleKeyframes(keyframes: Keyframe[], time: number): ViewPose | null {
+  if (keyframes.length === 0) return null;
+  const next = keyframes.findIndex(keyframe => keyframe.time > time);
+  if (next === 0) return keyframes[0];
+  if (next === -1) return keyframes[keyframes.length - 1];
+  const from = keyframes[next - 1];
+  const to = keyframes[next];
+  const t = (time - from.time) / (to.time - from.time);
+  return interpolatePose(from, to, EASINGS[from.easing].apply(t));
+}
@@ -0,0 +1,53 @@
+import { RotationPlane4D, Vector4D } from '@/types/4d';
+import { Bivector4D, ZERO_BIVECTOR } from '@/math/rotation';
+
+// The view-space directions of the 3D camera's screen: right, up, and back towards the viewer
+export interface ScreenFrame {
+  right: Vector4D;
+  up: Vector4D;
+  back: Vector4D;
+}
+
+export type PointerMode = 'orbit' | 'rotate4D';
+
+// Planes a plain drag turns in: 'screen' follows the 3D camera, the others are fixed
+// coordinate planes for horizontal and vertical drags
+export const DRAG_PLANE_OPTIONS: { id: string; label: string; planes?: [RotationPlane4D, RotationPlane4D] }[] = [
+  { id: 'screen', label: 'Screen ↔ / ↕ with W' },
+  { id: 'xw-yw', label: 'XW / YW', planes: ['xw', 'yw'] },
+  { id: 'xw-zw', label: 'XW / ZW', planes: ['xw', 'zw'] },
+  { id: 'zw-yw', label: 'ZW / YW', planes: ['zw', 'yw'] },
+  { id: 'xy-zw', label: 'XY / ZW', planes: ['xy', 'zw'] },
+];
+
+const W_AXIS: Vector4D = { x: 0, y: 0, z: 0, w: 1 };
+
+// The bivector turning `from` towards `to`, with a rate of the product of their lengths.
+// A rate in plane "ab" turns a towards b, as Orientation4DUtils.planeRotation does.
+export function wedge(from: Vector4D, to: Vector4D): Bivector4D {
+  const component = (a: keyof Vector4D, b: keyof Vector4D) => from[a] * to[b] - from[b] * to[a];
+  return {
+    xy: component('x', 'y'), xz: component('x', 'z'), xw: component('x', 'w'),
+    yz: component('y', 'z'), yw: component('y', 'w'), zw: component('z', 'w'),
+  };
+}
+
+const combine = (a: Bivector4D, b: Bivector4D, scaleA: number, scaleB: number): Bivector4D =>
+  Object.fromEntries(
+    (Object.keys(a) as RotationPlane4D[]).map(plane => [plane, a[plane] * scaleA + b[plane] * scaleB])
+  ) as Bivector4D;
+
+// The turn for a drag of (dx, dy) radians, with screen y pointing down. Dragging right
+// brings the depth axis round to the right and dragging down brings it down, where the depth
+// axis is W, or the camera's own depth for a 3D drag.
+export function dragBivector(dx: number, dy: number, frame: ScreenFrame, dragPlanes: string, in3D: boolean): Bivector4D {
+  if (in3D) return combine(wedge(frame.back, frame.right), wedge(frame.back, frame.up), dx, -dy);
+  const planes = DRAG_PLANE_OPTIONS.find(option => option.id === dragPlanes)?.planes;
+  if (!planes) return combine(wedge(W_AXIS, frame.right), wedge(W_AXIS, frame.up), dx, -dy);
+  // The same directions as 'screen' gives for a camera looking down -Z
+  const [horizontal, vertical] = planes;
+  const bivector = { ...ZERO_BIVECTOR };
+  bivector[horizontal] -= dx;
+  bivector[vertical] += dy;
+  return bivector;
+}
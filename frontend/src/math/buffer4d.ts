@@ -0,0 +1,276 @@
+// Allocation-free 4D math on typed arrays. Matrices are row-major: element (row, col) of a
+// 4x4 matrix lives at [row * 4 + col], of a 5x5 homogeneous matrix at [row * 5 + col].
+// Points are packed as consecutive (x, y, z, w) quadruples. Every function writes into an
+// `out` argument supplied by the caller, and `out` may alias any of the inputs.
+
+export type NumericArray = Float32Array | Float64Array;
+
+// Scratch space for results that must not overwrite their inputs while being computed
+const scratch4 = new Float64Array(16);
+const scratch5 = new Float64Array(25);
+const scratchGauss = new Float64Array(50);
+
+// Gaussian elimination with partial pivoting on an n x n matrix, optionally applying the
+// same row operations to `inverse` (initialised to identity). Returns the determinant.
+function eliminate(m: NumericArray, n: number, inverse: NumericArray | null): number {
+  const a = scratchGauss;
+  for (let i = 0; i < n * n; i++) a[i] = m[i];
+  if (inverse) {
+    for (let i = 0; i < n * n; i++) inverse[i] = i % (n + 1) === 0 ? 1 : 0;
+  }
+
+  let determinant = 1;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row * n + col]) > Math.abs(a[pivot * n + col])) pivot = row;
+    }
+    const pivotValue = a[pivot * n + col];
+    if (pivotValue === 0) return 0;
+
+    if (pivot !== col) {
+      determinant = -determinant;
+      for (let k = 0; k < n; k++) {
+        let t = a[col * n + k]; a[col * n + k] = a[pivot * n + k]; a[pivot * n + k] = t;
+        if (inverse) {
+          t = inverse[col * n + k]; inverse[col * n + k] = inverse[pivot * n + k]; inverse[pivot * n + k] = t;
+        }
+      }
+    }
+    determinant *= pivotValue;
+
+    for (let k = 0; k < n; k++) {
+      a[col * n + k] /= pivotValue;
+      if (inverse) inverse[col * n + k] /= pivotValue;
+    }
+    // Forward elimination is enough for the determinant; the inverse needs Gauss-Jordan
+    for (let row = inverse ? 0 : col + 1; row < n; row++) {
+      if (row === col) continue;
+      const factor = a[row * n + col];
+      if (factor === 0) continue;
+      for (let k = 0; k < n; k++) {
+        a[row * n + k] -= factor * a[col * n + k];
+        if (inverse) inverse[row * n + k] -= factor * inverse[col * n + k];
+      }
+    }
+  }
+  return determinant;
+}
+
+export class Mat4Buffer {
+  static create(): Float64Array {
+    return Mat4Buffer.identity(new Float64Array(16));
+  }
+
+  static identity<T extends NumericArray>(out: T): T {
+    for (let i = 0; i < 16; i++) out[i] = i % 5 === 0 ? 1 : 0;
+    return out;
+  }
+
+  static fromRows<T extends NumericArray>(rows: number[][], out: T): T {
+    for (let i = 0; i < 4; i++) {
+      for (let j = 0; j < 4; j++) out[i * 4 + j] = rows[i][j];
+    }
+    return out;
+  }
+
+  static toRows(m: NumericArray): number[][] {
+    return [
+      [m[0], m[1], m[2], m[3]],
+      [m[4], m[5], m[6], m[7]],
+      [m[8], m[9], m[10], m[11]],
+      [m[12], m[13], m[14], m[15]],
+    ];
+  }
+
+  static copy<T extends NumericArray>(m: NumericArray, out: T): T {
+    for (let i = 0; i < 16; i++) out[i] = m[i];
+    return out;
+  }
+
+  // Rotation by angle in the plane of axes i < j (0 = x ... 3 = w), turning i towards j
+  static planeRotation<T extends NumericArray>(i: number, j: number, angle: number, out: T): T {
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    Mat4Buffer.identity(out);
+    out[i * 4 + i] = c;
+    out[i * 4 + j] = -s;
+    out[j * 4 + i] = s;
+    out[j * 4 + j] = c;
+    return out;
+  }
+
+  static multiply<T extends NumericArray>(a: NumericArray, b: NumericArray, out: T): T {
+    for (let i = 0; i < 4; i++) {
+      for (let j = 0; j < 4; j++) {
+        let sum = 0;
+        for (let k = 0; k < 4; k++) sum += a[i * 4 + k] * b[k * 4 + j];
+        scratch4[i * 4 + j] = sum;
+      }
+    }
+    return Mat4Buffer.copy(scratch4, out);
+  }
+
+  static transpose<T extends NumericArray>(m: NumericArray, out: T): T {
+    for (let i = 0; i < 4; i++) {
+      for (let j = 0; j < 4; j++) scratch4[j * 4 + i] = m[i * 4 + j];
+    }
+    return Mat4Buffer.copy(scratch4, out);
+  }
+
+  static determinant(m: NumericArray): number {
+    // Expansion by complementary 2x2 minors of the top and bottom row pairs
+    const b00 = m[0] * m[5] - m[1] * m[4];
+    const b01 = m[0] * m[6] - m[2] * m[4];
+    const b02 = m[0] * m[7] - m[3] * m[4];
+    const b03 = m[1] * m[6] - m[2] * m[5];
+    const b04 = m[1] * m[7] - m[3] * m[5];
+    const b05 = m[2] * m[7] - m[3] * m[6];
+    const b06 = m[8] * m[13] - m[9] * m[12];
+    const b07 = m[8] * m[14] - m[10] * m[12];
+    const b08 = m[8] * m[15] - m[11] * m[12];
+    const b09 = m[9] * m[14] - m[10] * m[13];
+    const b10 = m[9] * m[15] - m[11] * m[13];
+    const b11 = m[10] * m[15] - m[11] * m[14];
+    return b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+  }
+
+  // Writes the inverse into out, or returns null (leaving out untouched) for a singular matrix
+  static invert<T extends NumericArray>(m: NumericArray, out: T): T | null {
+    if (eliminate(m, 4, scratch4) === 0) return null;
+    return Mat4Buffer.copy(scratch4, out);
+  }
+
+  // Multiply the point at src[srcOffset] by m and write it to out[outOffset]
+  static transformPoint(m: NumericArray, src: NumericArray, srcOffset: number, out: NumericArray, outOffset: number) {
+    const x = src[srcOffset];
+    const y = src[srcOffset + 1];
+    const z = src[srcOffset + 2];
+    const w = src[srcOffset + 3];
+    out[outOffset] = m[0] * x + m[1] * y + m[2] * z + m[3] * w;
+    out[outOffset + 1] = m[4] * x + m[5] * y + m[6] * z + m[7] * w;
+    out[outOffset + 2] = m[8] * x + m[9] * y + m[10] * z + m[11] * w;
+    out[outOffset + 3] = m[12] * x + m[13] * y + m[14] * z + m[15] * w;
+  }
+}
+
+// 5x5 homogeneous matrices: a 4x4 linear part plus a translation column, acting on (x, y, z, w, 1)
+export class Mat5Buffer {
+  static create(): Float64Array {
+    return Mat5Buffer.identity(new Float64Array(25));
+  }
+
+  static identity<T extends NumericArray>(out: T): T {
+    for (let i = 0; i < 25; i++) out[i] = i % 6 === 0 ? 1 : 0;
+    return out;
+  }
+
+  static copy<T extends NumericArray>(m: NumericArray, out: T): T {
+    for (let i = 0; i < 25; i++) out[i] = m[i];
+    return out;
+  }
+
+  // Rotate by the 4x4 matrix, then translate
+  static fromRotationTranslation<T extends NumericArray>(rotation: NumericArray, translation: NumericArray, out: T): T {
+    Mat5Buffer.identity(out);
+    for (let i = 0; i < 4; i++) {
+      for (let j = 0; j < 4; j++) out[i * 5 + j] = rotation[i * 4 + j];
+      out[i * 5 + 4] = translation[i];
+    }
+    return out;
+  }
+
+  static multiply<T extends NumericArray>(a: NumericArray, b: NumericArray, out: T): T {
+    for (let i = 0; i < 5; i++) {
+      for (let j = 0; j < 5; j++) {
+        let sum = 0;
+        for (let k = 0; k < 5; k++) sum += a[i * 5 + k] * b[k * 5 + j];
+        scratch5[i * 5 + j] = sum;
+      }
+    }
+    return Mat5Buffer.copy(scratch5, out);
+  }
+
+  static transpose<T extends NumericArray>(m: NumericArray, out: T): T {
+    for (let i = 0; i < 5; i++) {
+      for (let j = 0; j < 5; j++) scratch5[j * 5 + i] = m[i * 5 + j];
+    }
+    return Mat5Buffer.copy(scratch5, out);
+  }
+
+  static determinant(m: NumericArray): number {
+    return eliminate(m, 5, null);
+  }
+
+  // Writes the inverse into out, or returns null (leaving out untouched) for a singular matrix
+  static invert<T extends NumericArray>(m: NumericArray, out: T): T | null {
+    if (eliminate(m, 5, scratch5) === 0) return null;
+    return Mat5Buffer.copy(scratch5, out);
+  }
+
+  // Transform the point at src[srcOffset] (with an implicit homogeneous 1) into out[outOffset]
+  static transformPoint(m: NumericArray, src: NumericArray, srcOffset: number, out: NumericArray, outOffset: number) {
+    const x = src[srcOffset];
+    const y = src[srcOffset + 1];
+    const z = src[srcOffset + 2];
+    const w = src[srcOffset + 3];
+    out[outOffset] = m[0] * x + m[1] * y + m[2] * z + m[3] * w + m[4];
+    out[outOffset + 1] = m[5] * x + m[6] * y + m[7] * z + m[8] * w + m[9];
+    out[outOffset + 2] = m[10] * x + m[11] * y + m[12] * z + m[13] * w + m[14];
+    out[outOffset + 3] = m[15] * x + m[16] * y + m[17] * z + m[18] * w + m[19];
+  }
+}
+
+// Batch operations over packed point arrays
+export class Vec4Buffer {
+  static fromPoints<T extends NumericArray>(points: { x: number; y: number; z: number; w: number }[], out: T): T {
+    points.forEach((p, i) => {
+      out[i * 4] = p.x;
+      out[i * 4 + 1] = p.y;
+      out[i * 4 + 2] = p.z;
+      out[i * 4 + 3] = p.w;
+    });
+    return out;
+  }
+
+  // out[i] = rotation * src[i] + translation for the first count points
+  static transformPoints<T extends NumericArray>(
+    rotation: NumericArray,
+    translation: NumericArray | null,
+    src: NumericArray,
+    out: T,
+    count: number
+  ): T {
+    for (let i = 0; i < count; i++) {
+      const o = i * 4;
+      Mat4Buffer.transformPoint(rotation, src, o, out, o);
+      if (translation) {
+        out[o] += translation[0];
+        out[o + 1] += translation[1];
+        out[o + 2] += translation[2];
+        out[o + 3] += translation[3];
+      }
+    }
+    return out;
+  }
+
+  // Same as transformPoints, with the rotation and translation packed in a 5x5 matrix
+  static transformPointsHomogeneous<T extends NumericArray>(m: NumericArray, src: NumericArray, out: T, count: number): T {
+    for (let i = 0; i < count; i++) {
+      Mat5Buffer.transformPoint(m, src, i * 4, out, i * 4);
+    }
+    return out;
+  }
+
+  // Perspective projection of the first count points into packed (x, y, z) triples,
+  // matching Vector4DUtils.projectTo3D
+  static projectPerspective<T extends NumericArray>(src: NumericArray, out: T, count: number, distance: number): T {
+    for (let i = 0; i < count; i++) {
+      const factor = distance / Math.max(distance - src[i * 4 + 3], 0.001);
+      out[i * 3] = src[i * 4] * factor;
+      out[i * 3 + 1] = src[i * 4 + 1] * factor;
+      out[i * 3 + 2] = src[i * 4 + 2] * factor;
+    }
+    return out;
+  }
+}
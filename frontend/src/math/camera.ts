@@ -0,0 +1,39 @@
+import { Camera4D, Orientation4D, Orientation4DUtils, Transform4D, Vector4D, Vector4DUtils } from '@/types/4d';
+
+// Half-extent of the region around the view centre that the field of view spans
+export const CAMERA_FOV_EXTENT = 4;
+
+// Distance from the eye at which the field of view spans CAMERA_FOV_EXTENT. It plays the
+// role of the perspective projection's eye distance.
+export function focalDistance(fov: number): number {
+  return CAMERA_FOV_EXTENT / Math.tan((fov * Math.PI) / 360);
+}
+
+// On the +W axis looking back at the origin, like the perspective projection's fixed eye
+export const DEFAULT_CAMERA: Camera4D = {
+  position: { x: 0, y: 0, z: 0, w: focalDistance(60) },
+  orientation: Orientation4DUtils.identity(),
+  fov: 60,
+};
+
+// World to view space: into the camera's frame, then shifted along W so the eye lands where
+// the projections expect it, at w = focalDistance on the view's W axis
+export function cameraViewTransform(camera: Camera4D): Transform4D {
+  const orientation = Orientation4DUtils.transpose(camera.orientation);
+  const eye = Vector4DUtils.matrixMultiplyVector(orientation, camera.position);
+  return {
+    orientation,
+    translation: { x: -eye.x, y: -eye.y, z: -eye.z, w: focalDistance(camera.fov) - eye.w },
+  };
+}
+
+// Moves the camera so the scene shifts by `delta` in view space, and turns it about its eye
+// so the scene turns by `rotation` (a view-space rotation, applied after the current view)
+export function navigateCamera(camera: Camera4D, delta: Vector4D, rotation: Orientation4D): Camera4D {
+  const move = Vector4DUtils.matrixMultiplyVector(camera.orientation, delta);
+  return {
+    ...camera,
+    position: Vector4DUtils.subtract(camera.position, move),
+    orientation: Vector4DUtils.matrixMultiplyMatrix(camera.orientation, Orientation4DUtils.transpose(rotation)),
+  };
+}
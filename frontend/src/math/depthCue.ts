@@ -0,0 +1,26 @@
+import { DepthCueSettings } from '@/types/4d';
+
+export const DEFAULT_DEPTH_CUE_SETTINGS: DepthCueSettings = {
+  enabled: false,
+  lowColor: '#3b82f6',
+  highColor: '#ef4444',
+  wMin: -3,
+  wMax: 3,
+  fade: false,
+  fadeDistance: 4,
+  minOpacity: 0.1,
+};
+
+// Position of w along the colour gradient, from 0 at wMin to 1 at wMax
+export function depthCueGradient(w: number, settings: DepthCueSettings): number {
+  const range = settings.wMax - settings.wMin;
+  if (range <= 0) return 0.5;
+  return Math.min(1, Math.max(0, (w - settings.wMin) / range));
+}
+
+// Opacity for w: opaque on the observer's hyperplane, linearly fading to minOpacity at fadeDistance
+export function depthCueOpacity(w: number, settings: DepthCueSettings): number {
+  if (!settings.fade || settings.fadeDistance <= 0) return 1;
+  const t = Math.min(1, Math.abs(w) / settings.fadeDistance);
+  return 1 - t * (1 - settings.minOpacity);
+}
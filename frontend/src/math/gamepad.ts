@@ -0,0 +1,90 @@
+import { MotionAxis, MotionVector, ZERO_MOTION } from '@/math/motion';
+
+// The parts of a Gamepad that navigation reads, so a plain object can stand in for one
+export interface GamepadSnapshot {
+  axes: readonly number[];
+  buttons: readonly { pressed: boolean; value: number }[];
+}
+
+export interface GamepadSettings {
+  // Stick deflection below this is ignored, so a resting stick does not drift
+  deadZone: number;
+  // Multiplier of the stick input, before it is limited to full input
+  sensitivity: number;
+}
+
+export const DEFAULT_GAMEPAD_SETTINGS: GamepadSettings = {
+  deadZone: 0.15,
+  sensitivity: 1,
+};
+
+// Indices in the browser's "standard" gamepad layout
+const STICKS = { leftX: 0, leftY: 1, rightX: 2, rightY: 3 };
+const BUTTONS = { leftShoulder: 4, rightShoulder: 5, leftTrigger: 6, rightTrigger: 7 };
+
+type StickAxis = keyof typeof STICKS;
+
+export type GamepadMode = 'move' | 'rotate3D' | 'rotate4D';
+
+// What each stick axis drives in each mode. Stick Y is positive downwards, so pushing up
+// moves forward (-Z) and up (+Y).
+export const GAMEPAD_MAPPINGS: Record<GamepadMode, { label: string; chord: string; axes: Partial<Record<StickAxis, [MotionAxis, 1 | -1]>> }> = {
+  move: {
+    label: 'Move',
+    chord: 'No shoulder held',
+    axes: { leftX: ['x', 1], leftY: ['z', 1], rightX: ['w', 1], rightY: ['y', -1] },
+  },
+  rotate3D: {
+    label: 'Rotate in 3D',
+    chord: 'Hold LB',
+    axes: { leftX: ['xz', 1], leftY: ['yz', 1], rightX: ['xy', 1] },
+  },
+  rotate4D: {
+    label: 'Rotate through W',
+    chord: 'Hold RB',
+    axes: { leftX: ['xw', 1], leftY: ['yw', 1], rightX: ['zw', 1] },
+  },
+};
+
+export const GAMEPAD_STICK_LABELS: Record<StickAxis, string> = {
+  leftX: 'Left stick ↔',
+  leftY: 'Left stick ↕',
+  rightX: 'Right stick ↔',
+  rightY: 'Right stick ↕',
+};
+
+const pressed = (gamepad: GamepadSnapshot, button: number) => gamepad.buttons[button]?.pressed ?? false;
+
+export function gamepadMode(gamepad: GamepadSnapshot): GamepadMode {
+  if (pressed(gamepad, BUTTONS.rightShoulder)) return 'rotate4D';
+  if (pressed(gamepad, BUTTONS.leftShoulder)) return 'rotate3D';
+  return 'move';
+}
+
+// Rescales so input starts from zero at the edge of the dead zone instead of jumping
+export function applyDeadZone(value: number, deadZone: number): number {
+  const magnitude = Math.abs(value);
+  if (magnitude <= deadZone) return 0;
+  return Math.sign(value) * Math.min(1, (magnitude - deadZone) / (1 - deadZone));
+}
+
+// Navigation input from the connected gamepads, summed. The triggers act as the speed modifier.
+export function gamepadInput(
+  gamepads: readonly (GamepadSnapshot | null)[],
+  settings: GamepadSettings
+): { input: MotionVector; boosted: boolean } {
+  const input = { ...ZERO_MOTION };
+  let boosted = false;
+  for (const gamepad of gamepads) {
+    if (!gamepad) continue;
+    const axes = GAMEPAD_MAPPINGS[gamepadMode(gamepad)].axes;
+    for (const [stick, index] of Object.entries(STICKS) as [StickAxis, number][]) {
+      const target = axes[stick];
+      if (!target) continue;
+      const value = applyDeadZone(gamepad.axes[index] ?? 0, settings.deadZone) * settings.sensitivity;
+      input[target[0]] += target[1] * value;
+    }
+    boosted ||= pressed(gamepad, BUTTONS.leftTrigger) || pressed(gamepad, BUTTONS.rightTrigger);
+  }
+  return { input, boosted };
+}
@@ -0,0 +1,95 @@
+import { ProjectionSettings, Shape4D, Vector4D, Vector4DUtils, ViewTransforms } from '@/types/4d';
+import { PROJECTIONS, Point3D } from '@/math/projection';
+import { findShape, viewVertex } from '@/math/picking';
+
+// A vertex of the shape with the given scene entry id
+export interface VertexRef {
+  shapeId: string;
+  index: number;
+}
+
+// A distance between two vertices, or the angle at the middle one of three
+export interface Measurement {
+  id: number;
+  kind: 'distance' | 'angle';
+  vertices: VertexRef[];
+}
+
+export const MEASUREMENT_VERTEX_COUNT: Record<Measurement['kind'], number> = {
+  distance: 2,
+  angle: 3,
+};
+
+export interface MeasurementValues {
+  value4D: number;
+  // Null when one of the vertices is clipped and has no projection
+  value3D: number | null;
+  points4D: Vector4D[];
+  points3D: (Point3D | null)[];
+}
+
+export function distance4D(a: Vector4D, b: Vector4D): number {
+  const d = Vector4DUtils.subtract(a, b);
+  return Math.sqrt(Vector4DUtils.dot(d, d));
+}
+
+export function distance3D(a: Point3D, b: Point3D): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+// Angle in radians at `vertex` between the directions to a and b
+export function angle4D(a: Vector4D, vertex: Vector4D, b: Vector4D): number {
+  const u = Vector4DUtils.subtract(a, vertex);
+  const v = Vector4DUtils.subtract(b, vertex);
+  const lengths = Math.sqrt(Vector4DUtils.dot(u, u) * Vector4DUtils.dot(v, v));
+  return lengths > 0 ? Math.acos(Math.max(-1, Math.min(1, Vector4DUtils.dot(u, v) / lengths))) : 0;
+}
+
+export function angle3D(a: Point3D, vertex: Point3D, b: Point3D): number {
+  return angle4D({ ...a, w: 0 }, { ...vertex, w: 0 }, { ...b, w: 0 });
+}
+
+export function isValidVertexRef(ref: VertexRef, shapes: Shape4D[]): boolean {
+  const shape = findShape(shapes, ref.shapeId);
+  return shape !== undefined && Number.isInteger(ref.index) && ref.index >= 0 && ref.index < shape.vertices.length;
+}
+
+// Current 4D and projected values of a measurement, or null if it refers to missing vertices.
+// 4D values are taken in view space, which the rigid transforms to it leave unchanged.
+export function evaluateMeasurement(
+  measurement: Measurement,
+  shapes: Shape4D[],
+  transforms: ViewTransforms,
+  projection: ProjectionSettings
+): MeasurementValues | null {
+  if (!measurement.vertices.every(ref => isValidVertexRef(ref, shapes))) return null;
+
+  const strategy = PROJECTIONS[projection.mode];
+  const points4D = measurement.vertices.map(ref => viewVertex(findShape(shapes, ref.shapeId)!, ref.index, transforms));
+  const points3D = points4D.map(p =>
+    strategy.clipDistance && strategy.clipDistance(p, projection) < 0 ? null : strategy.project(p, projection)
+  );
+  const visible = points3D.every(p => p !== null) ? (points3D as Point3D[]) : null;
+
+  if (measurement.kind === 'distance') {
+    const [a, b] = points4D;
+    return {
+      value4D: distance4D(a, b),
+      value3D: visible && distance3D(visible[0], visible[1]),
+      points4D,
+      points3D,
+    };
+  }
+  const [a, vertex, b] = points4D;
+  return {
+    value4D: angle4D(a, vertex, b),
+    value3D: visible && angle3D(visible[0], visible[1], visible[2]),
+    points4D,
+    points3D,
+  };
+}
+
+export function formatMeasurement(kind: Measurement['kind'], value: number | null): string {
+  if (value === null) return 'clipped';
+  return kind === 'distance' ? value.toFixed(3) : `${(value * 180 / Math.PI).toFixed(1)}°`;
+}
@@ -0,0 +1,46 @@
+import { Shape4D, Transform4DUtils, Vector4D, Vector4DUtils, ViewTransforms } from '@/types/4d';
+
+// A vertex or edge of one of the rendered shapes, by the id of the shape's scene entry
+export interface PickTarget {
+  shapeId: string;
+  kind: 'vertex' | 'edge';
+  index: number;
+}
+
+export function samePickTarget(a: PickTarget | null, b: PickTarget | null): boolean {
+  if (!a || !b) return a === b;
+  return a.shapeId === b.shapeId && a.kind === b.kind && a.index === b.index;
+}
+
+// The shape with the given scene entry id, if it is among the rendered ones
+export function findShape(shapes: Shape4D[], id: string): Shape4D | undefined {
+  return shapes.find(shape => shape.id === id);
+}
+
+// Shape-space position of a vertex, i.e. including the shape's own offset
+export function shapeVertex(shape: Shape4D, index: number): Vector4D {
+  return Vector4DUtils.add(shape.vertices[index], shape.position);
+}
+
+// View-space position of a vertex under the shape's own transform, the global one and the camera
+export function viewVertex(shape: Shape4D, index: number, transforms: ViewTransforms): Vector4D {
+  return Vector4DUtils.applyTransform(shapeVertex(shape, index), Transform4DUtils.shapeToView(shape, transforms));
+}
+
+// Indices of the edges that end at the given vertex
+export function incidentEdges(shape: Shape4D, vertex: number): number[] {
+  const result: number[] = [];
+  shape.edges.forEach(([a, b], e) => {
+    if (a === vertex || b === vertex) result.push(e);
+  });
+  return result;
+}
+
+// Distance from (px, py) to the segment from (ax, ay) to (bx, by)
+export function distanceToSegment2D(px: number, py: number, ax: number, ay: number, bx: number, by: number): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const length2 = dx * dx + dy * dy;
+  const t = length2 > 0 ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / length2)) : 0;
+  return Math.hypot(px - (ax + dx * t), py - (ay + dy * t));
+}
@@ -0,0 +1,130 @@
+import { Axis4D, ProjectionMode, ProjectionSettings, Vector4D, Vector4DUtils } from '@/types/4d';
+
+export interface Point3D {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// A way of flattening view-space 4D points into the 3D scene
+export interface ProjectionStrategy {
+  label: string;
+  project(point: Vector4D, settings: ProjectionSettings): Point3D;
+  // Signed distance to the near clipping hyperplane: negative means the point must not be
+  // projected. Strategies that can project every point leave this out.
+  clipDistance?(point: Vector4D, settings: ProjectionSettings): number;
+}
+
+// 4D eye on the W axis at `distance`, looking towards the w = 0 hyperplane
+const perspective: ProjectionStrategy = {
+  label: 'Perspective',
+  project(point, settings) {
+    const p = Vector4DUtils.projectTo3D(point, settings.distance);
+    return { x: p.x * settings.scale, y: p.y * settings.scale, z: p.z * settings.scale };
+  },
+  clipDistance(point, settings) {
+    return settings.distance - settings.nearClip - point.w;
+  },
+};
+
+// Parallel projection along W: the W coordinate is simply dropped
+const orthographic: ProjectionStrategy = {
+  label: 'Orthographic',
+  project(point, settings) {
+    return { x: point.x * settings.scale, y: point.y * settings.scale, z: point.z * settings.scale };
+  },
+};
+
+// Each point is projected from the north pole of the origin-centred 3-sphere it lies on,
+// onto that sphere's equatorial hyperplane. Shapes on S³ are therefore mapped conformally.
+const stereographic: ProjectionStrategy = {
+  label: 'Stereographic',
+  project(point, settings) {
+    const radius = Math.sqrt(Vector4DUtils.dot(point, point));
+    if (radius < 1e-9) return { x: 0, y: 0, z: 0 };
+    // Handle the north pole itself, which maps to infinity
+    const denominator = Math.max(radius - point.w, 1e-3);
+    const factor = (radius / denominator) * settings.scale;
+    return { x: point.x * factor, y: point.y * factor, z: point.z * factor };
+  },
+  clipDistance(point, settings) {
+    // Points close to their sphere's pole blow up just like points close to a perspective eye
+    return Math.sqrt(Vector4DUtils.dot(point, point)) - point.w - settings.nearClip;
+  },
+};
+
+// Parallel projection that draws W along a chosen 3D direction, like a cabinet drawing of a cube
+const oblique: ProjectionStrategy = {
+  label: 'Oblique',
+  project(point, settings) {
+    const d = settings.obliqueDirection;
+    const length = Math.hypot(d.x, d.y, d.z) || 1;
+    const k = (point.w * settings.obliqueFactor) / length;
+    return {
+      x: (point.x + d.x * k) * settings.scale,
+      y: (point.y + d.y * k) * settings.scale,
+      z: (point.z + d.z * k) * settings.scale,
+    };
+  },
+};
+
+export const AXES_4D: Axis4D[] = ['x', 'y', 'z', 'w'];
+
+// The three axes kept when dropping one, in their original order
+export function keptAxes(dropped: Axis4D): [Axis4D, Axis4D, Axis4D] {
+  return AXES_4D.filter(axis => axis !== dropped) as [Axis4D, Axis4D, Axis4D];
+}
+
+// Parallel projection along any one axis: the remaining coordinates become X, Y and Z.
+// Dropping W is the same as the orthographic projection.
+const axisDrop: ProjectionStrategy = {
+  label: 'Axis drop',
+  project(point, settings) {
+    const [a, b, c] = keptAxes(settings.droppedAxis);
+    return { x: point[a] * settings.scale, y: point[b] * settings.scale, z: point[c] * settings.scale };
+  },
+};
+
+export const PROJECTIONS: Record<ProjectionMode, ProjectionStrategy> = {
+  perspective,
+  orthographic,
+  stereographic,
+  oblique,
+  axisDrop,
+};
+
+export const DEFAULT_PROJECTION_SETTINGS: ProjectionSettings = {
+  mode: 'perspective',
+  distance: 7,
+  nearClip: 0.5,
+  scale: 1,
+  obliqueDirection: { x: 1, y: 1, z: 0 },
+  obliqueFactor: 0.5,
+  droppedAxis: 'w',
+};
+
+export function projectPoint(point: Vector4D, settings: ProjectionSettings): Point3D {
+  return PROJECTIONS[settings.mode].project(point, settings);
+}
+
+export function lerp4D(a: Vector4D, b: Vector4D, t: number): Vector4D {
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    z: a.z + (b.z - a.z) * t,
+    w: a.w + (b.w - a.w) * t,
+  };
+}
+
+// Clip a view-space segment against the near hyperplane of the active strategy. Returns the
+// visible part, or null when the whole segment is behind the eye.
+export function clipSegment(a: Vector4D, b: Vector4D, settings: ProjectionSettings): [Vector4D, Vector4D] | null {
+  const strategy = PROJECTIONS[settings.mode];
+  if (!strategy.clipDistance) return [a, b];
+  const da = strategy.clipDistance(a, settings);
+  const db = strategy.clipDistance(b, settings);
+  if (da >= 0 && db >= 0) return [a, b];
+  if (da < 0 && db < 0) return null;
+  const cut = lerp4D(a, b, da / (da - db));
+  return da < 0 ? [cut, b] : [a, cut];
+}
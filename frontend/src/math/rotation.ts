@@ -0,0 +1,143 @@
+import { Orientation4D, Orientation4DUtils, ROTATION_PLANES, RotationPlane4D } from '@/types/4d';
+
+// A quaternion as [real, i, j, k]. 4D points are read as quaternions in the same order,
+// x being the real part.
+export type Quaternion = [number, number, number, number];
+
+function multiply(q: Quaternion, r: Quaternion): Quaternion {
+  return [
+    q[0] * r[0] - q[1] * r[1] - q[2] * r[2] - q[3] * r[3],
+    q[0] * r[1] + q[1] * r[0] + q[2] * r[3] - q[3] * r[2],
+    q[0] * r[2] - q[1] * r[3] + q[2] * r[0] + q[3] * r[1],
+    q[0] * r[3] + q[1] * r[2] - q[2] * r[1] + q[3] * r[0],
+  ];
+}
+
+const dot = (q: Quaternion, r: Quaternion) => q[0] * r[0] + q[1] * r[1] + q[2] * r[2] + q[3] * r[3];
+
+const BASIS: Quaternion[] = [[1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, 0], [0, 0, 0, 1]];
+
+// The rotation p -> left * p * right. Every 4D rotation has this form, with the unit
+// quaternion pair unique up to negating both.
+export function isoclinicPairToOrientation(left: Quaternion, right: Quaternion): Orientation4D {
+  const columns = BASIS.map(e => multiply(multiply(left, e), right));
+  return BASIS.map((_, row) => columns.map(column => column[row]));
+}
+
+// Sum of the entrywise products of two 4x4 matrices
+function inner(a: number[][], b: number[][]): number {
+  let sum = 0;
+  for (let i = 0; i < 4; i++) {
+    for (let j = 0; j < 4; j++) sum += a[i][j] * b[i][j];
+  }
+  return sum;
+}
+
+// Rotations for every pair of basis quaternions. They are orthogonal with squared norm 4,
+// so projecting a rotation onto them gives the outer product of its quaternion pair.
+const PAIR_BASIS = BASIS.map(left => BASIS.map(right => isoclinicPairToOrientation(left, right)));
+
+// Splits a rotation into the left and right quaternions of isoclinicPairToOrientation.
+// Reflections have no such pair and are rejected.
+export function orientationToIsoclinicPair(orientation: Orientation4D): [Quaternion, Quaternion] {
+  if (Orientation4DUtils.determinant(orientation) < 0) throw new Error('Cannot split a reflection into isoclinic rotations');
+  const outer = PAIR_BASIS.map(row => row.map(basis => inner(basis, orientation) / 4) as Quaternion);
+  // Each row of the outer product is the right quaternion scaled by a left component
+  const largest = outer.reduce((best, row) => (dot(row, row) > dot(best, best) ? row : best));
+  const right = normalize(largest);
+  const left = normalize(outer.map(row => dot(row, right)) as Quaternion);
+  return [left, right];
+}
+
+function normalize(q: Quaternion): Quaternion {
+  const length = Math.sqrt(dot(q, q));
+  return q.map(value => value / length) as Quaternion;
+}
+
+// Angle between unit quaternions, as a point on the 3-sphere
+const arc = (q: Quaternion, r: Quaternion) => Math.acos(Math.max(-1, Math.min(1, dot(q, r))));
+
+function slerp(q: Quaternion, r: Quaternion, t: number): Quaternion {
+  const angle = arc(q, r);
+  if (angle < 1e-6) return normalize(q.map((value, i) => value + (r[i] - value) * t) as Quaternion);
+  // Opposite quaternions are joined by every great half circle; go through q * i, which is
+  // orthogonal to q, rather than dividing by sin(angle) ≈ 0
+  if (angle > Math.PI - 1e-6) {
+    const across = multiply(q, BASIS[1]);
+    return q.map((value, i) => Math.cos(t * Math.PI) * value + Math.sin(t * Math.PI) * across[i]) as Quaternion;
+  }
+  const a = Math.sin((1 - t) * angle) / Math.sin(angle);
+  const b = Math.sin(t * angle) / Math.sin(angle);
+  return q.map((value, i) => a * value + b * r[i]) as Quaternion;
+}
+
+// Geodesic interpolation between two rotations at a constant angular speed. Both quaternions
+// of the pair are slerped; of the two pairs describing `to`, the one nearer to `from` is used,
+// so the rotation takes the shortest way round.
+export function interpolateOrientation(from: Orientation4D, to: Orientation4D, t: number): Orientation4D {
+  const [left0, right0] = orientationToIsoclinicPair(from);
+  let [left1, right1] = orientationToIsoclinicPair(to);
+  const distance = (left: Quaternion, right: Quaternion) => arc(left0, left) ** 2 + arc(right0, right) ** 2;
+  const negate = (q: Quaternion) => q.map(value => -value) as Quaternion;
+  if (distance(negate(left1), negate(right1)) < distance(left1, right1)) {
+    left1 = negate(left1);
+    right1 = negate(right1);
+  }
+  return isoclinicPairToOrientation(slerp(left0, left1, t), slerp(right0, right1, t));
+}
+
+// An angular velocity, as the rate in each coordinate plane (radians per second)
+export type Bivector4D = Record<RotationPlane4D, number>;
+
+export const ZERO_BIVECTOR: Bivector4D = { xy: 0, xz: 0, xw: 0, yz: 0, yw: 0, zw: 0 };
+
+// d/dθ of the plane's rotation, from R(θ) - R(-θ) = 2 sin θ G
+const PLANE_GENERATORS = Object.fromEntries(ROTATION_PLANES.map(plane => {
+  const forward = Orientation4DUtils.planeRotation(plane, Math.PI / 2);
+  const backward = Orientation4DUtils.planeRotation(plane, -Math.PI / 2);
+  return [plane, forward.map((row, i) => row.map((value, j) => (value - backward[i][j]) / 2))];
+})) as Record<RotationPlane4D, number[][]>;
+
+// Generators of p -> u * p and p -> p * u for the unit imaginary quaternions u = i, j, k.
+// Like PAIR_BASIS they are orthogonal with squared norm 4.
+const LEFT_GENERATORS = BASIS.slice(1).map(u => isoclinicPairToOrientation(u, BASIS[0]));
+const RIGHT_GENERATORS = BASIS.slice(1).map(u => isoclinicPairToOrientation(BASIS[0], u));
+
+const generatorOf = (bivector: Bivector4D) =>
+  ROTATION_PLANES.reduce(
+    (sum, plane) => sum.map((row, i) => row.map((value, j) => value + bivector[plane] * PLANE_GENERATORS[plane][i][j])),
+    [[0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0]]
+  );
+
+// The imaginary quaternion whose generator is the projection of `generator` onto `basis`
+const project = (generator: number[][], basis: Orientation4D[]): Quaternion =>
+  [0, ...basis.map(b => inner(b, generator) / 4)] as Quaternion;
+
+// Splits an angular velocity into its commuting left and right isoclinic parts,
+// p' = u * p + p * v, given as the imaginary quaternions u and v
+function isoclinicVelocities(bivector: Bivector4D): [Quaternion, Quaternion] {
+  const generator = generatorOf(bivector);
+  return [project(generator, LEFT_GENERATORS), project(generator, RIGHT_GENERATORS)];
+}
+
+// The two rates (radians per second) in the pair of orthogonal planes the motion turns in.
+// One of them is zero for a simple rotation and they are equal for an isoclinic one.
+export function planeRates(bivector: Bivector4D): [number, number] {
+  const [left, right] = isoclinicVelocities(bivector);
+  const l = Math.sqrt(dot(left, left));
+  const r = Math.sqrt(dot(right, right));
+  return [l + r, Math.abs(l - r)];
+}
+
+function exponential(u: Quaternion, t: number): Quaternion {
+  const angle = Math.sqrt(dot(u, u)) * t;
+  if (Math.abs(angle) < 1e-12) return [1, 0, 0, 0];
+  const s = (Math.sin(angle) * t) / angle;
+  return [Math.cos(angle), u[1] * s, u[2] * s, u[3] * s];
+}
+
+// The rotation reached after turning at a constant angular velocity for `time` seconds
+export function rotationFromBivector(bivector: Bivector4D, time: number): Orientation4D {
+  const [left, right] = isoclinicVelocities(bivector);
+  return isoclinicPairToOrientation(exponential(left, time), exponential(right, time));
+}
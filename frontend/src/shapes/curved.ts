@@ -0,0 +1,226 @@
+import { Shape4D, Vector4D } from '@/types/4d';
+
+// Collects a parametric lattice into a Shape4D. Coincident vertices (poles, axes and the
+// seams shared between patches) are merged, so collapsed edges and faces drop out.
+class LatticeBuilder {
+  vertices: Vector4D[] = [];
+  edges: number[][] = [];
+  faces: number[][] = [];
+  private vertexIndex = new Map<string, number>();
+  private edgeKeys = new Set<string>();
+  private faceKeys = new Set<string>();
+
+  addVertex(v: Vector4D): number {
+    // Adding 0 folds -0 into 0 so mirrored seam points merge
+    const key = [v.x, v.y, v.z, v.w].map(value => (Math.round(value * 1e6) + 0) / 1e6).join(',');
+    let index = this.vertexIndex.get(key);
+    if (index === undefined) {
+      index = this.vertices.length;
+      this.vertices.push(v);
+      this.vertexIndex.set(key, index);
+    }
+    return index;
+  }
+
+  addEdge(a: number, b: number) {
+    if (a === b) return;
+    const key = a < b ? `${a}-${b}` : `${b}-${a}`;
+    if (this.edgeKeys.has(key)) return;
+    this.edgeKeys.add(key);
+    this.edges.push([a, b]);
+  }
+
+  addFace(loop: number[]) {
+    const face = loop.filter((v, i) => v !== loop[(i + 1) % loop.length]);
+    if (new Set(face).size !== face.length || face.length < 3) return;
+    const key = [...face].sort((a, b) => a - b).join(',');
+    if (this.faceKeys.has(key)) return;
+    this.faceKeys.add(key);
+    this.faces.push(face);
+  }
+
+  // Sample point(i, j, k) over a grid of the given sizes, connecting neighbours along each
+  // axis and spanning quads between each pair of axes. Periodic axes wrap around.
+  addLattice(sizes: number[], periodic: boolean[], point: (i: number, j: number, k: number) => Vector4D) {
+    const [ni, nj, nk] = sizes;
+    const indices: number[] = [];
+    const at = (c: number[]) => indices[(c[0] * nj + c[1]) * nk + c[2]];
+    for (let i = 0; i < ni; i++) {
+      for (let j = 0; j < nj; j++) {
+        for (let k = 0; k < nk; k++) {
+          indices.push(this.addVertex(point(i, j, k)));
+        }
+      }
+    }
+
+    // Neighbour of c along an axis, or null at the end of a non-periodic axis
+    const step = (c: number[], axis: number): number[] | null => {
+      const next = [...c];
+      next[axis]++;
+      if (next[axis] < sizes[axis]) return next;
+      if (periodic[axis] && sizes[axis] > 2) {
+        next[axis] = 0;
+        return next;
+      }
+      return null;
+    };
+
+    for (let i = 0; i < ni; i++) {
+      for (let j = 0; j < nj; j++) {
+        for (let k = 0; k < nk; k++) {
+          const c = [i, j, k];
+          for (let a = 0; a < 3; a++) {
+            const ca = step(c, a);
+            if (!ca) continue;
+            this.addEdge(at(c), at(ca));
+            for (let b = a + 1; b < 3; b++) {
+              const cb = step(c, b);
+              const cab = ca && step(ca, b);
+              if (cb && cab) this.addFace([at(c), at(ca), at(cab), at(cb)]);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  build(color: string): Shape4D {
+    return {
+      vertices: this.vertices,
+      edges: this.edges,
+      faces: this.faces,
+      position: { x: 0, y: 0, z: 0, w: 0 },
+      color
+    };
+  }
+}
+
+const TAU = Math.PI * 2;
+
+// 3-sphere (glome) in Hopf coordinates: a nested family of tori between two great circles
+export function createGlome(options?: {
+  radius?: number;
+  etaSegments?: number;  // tori between the two great circles
+  xiSegments?: number;   // samples around each torus circle
+}): Shape4D {
+  const radius = options?.radius ?? 2;
+  const etaSegments = options?.etaSegments ?? 6;
+  const xiSegments = options?.xiSegments ?? 16;
+
+  const builder = new LatticeBuilder();
+  builder.addLattice([etaSegments + 1, xiSegments, xiSegments], [false, true, true], (i, j, k) => {
+    const eta = (i / etaSegments) * (Math.PI / 2);
+    const xi1 = (j / xiSegments) * TAU;
+    const xi2 = (k / xiSegments) * TAU;
+    return {
+      x: radius * Math.cos(xi1) * Math.sin(eta),
+      y: radius * Math.sin(xi1) * Math.sin(eta),
+      z: radius * Math.cos(xi2) * Math.cos(eta),
+      w: radius * Math.sin(xi2) * Math.cos(eta),
+    };
+  });
+  return builder.build('#66ccff');
+}
+
+// Clifford torus: the flat torus on the 3-sphere, product of two circles of equal radius
+export function createCliffordTorus(options?: {
+  radius?: number;     // radius of the 3-sphere it lies on
+  uSegments?: number;
+  vSegments?: number;
+}): Shape4D {
+  const radius = options?.radius ?? 2;
+  const uSegments = options?.uSegments ?? 24;
+  const vSegments = options?.vSegments ?? 24;
+  const r = radius / Math.SQRT2;
+
+  const builder = new LatticeBuilder();
+  builder.addLattice([uSegments, vSegments, 1], [true, true, false], (i, j) => {
+    const u = (i / uSegments) * TAU;
+    const v = (j / vSegments) * TAU;
+    return { x: r * Math.cos(u), y: r * Math.sin(u), z: r * Math.cos(v), w: r * Math.sin(v) };
+  });
+  return builder.build('#ff99cc');
+}
+
+// Duocylinder: product of two disks. Its boundary is two solid tori glued along a torus ridge.
+export function createDuocylinder(options?: {
+  radius1?: number;       // disk radius in the XY plane
+  radius2?: number;       // disk radius in the ZW plane
+  segments?: number;      // samples around each circle
+  radialSegments?: number; // rings from each disk's centre to its rim
+}): Shape4D {
+  const radius1 = options?.radius1 ?? 1.5;
+  const radius2 = options?.radius2 ?? 1.5;
+  const segments = options?.segments ?? 16;
+  const radialSegments = options?.radialSegments ?? 3;
+
+  const builder = new LatticeBuilder();
+  // Solid torus filling the XY disk, on the rim of the ZW disk
+  builder.addLattice([radialSegments + 1, segments, segments], [false, true, true], (i, j, k) => {
+    const rho = (i / radialSegments) * radius1;
+    const u = (j / segments) * TAU;
+    const v = (k / segments) * TAU;
+    return { x: rho * Math.cos(u), y: rho * Math.sin(u), z: radius2 * Math.cos(v), w: radius2 * Math.sin(v) };
+  });
+  // Solid torus filling the ZW disk, on the rim of the XY disk
+  builder.addLattice([radialSegments + 1, segments, segments], [false, true, true], (i, j, k) => {
+    const rho = (i / radialSegments) * radius2;
+    const u = (j / segments) * TAU;
+    const v = (k / segments) * TAU;
+    return { x: radius1 * Math.cos(u), y: radius1 * Math.sin(u), z: rho * Math.cos(v), w: rho * Math.sin(v) };
+  });
+  return builder.build('#cc99ff');
+}
+
+// Spherinder: a ball extruded along W. Drawn as its side, a 2-sphere swept between the end caps.
+export function createSpherinder(options?: {
+  radius?: number;
+  halfHeight?: number;         // half-extent along W
+  latitudeSegments?: number;
+  longitudeSegments?: number;
+  heightSegments?: number;     // sphere slices along W
+}): Shape4D {
+  const radius = options?.radius ?? 1.5;
+  const halfHeight = options?.halfHeight ?? 1.5;
+  const latitudeSegments = options?.latitudeSegments ?? 8;
+  const longitudeSegments = options?.longitudeSegments ?? 16;
+  const heightSegments = options?.heightSegments ?? 4;
+
+  const builder = new LatticeBuilder();
+  builder.addLattice([latitudeSegments + 1, longitudeSegments, heightSegments + 1], [false, true, false], (i, j, k) => {
+    const theta = (i / latitudeSegments) * Math.PI;
+    const phi = (j / longitudeSegments) * TAU;
+    return {
+      x: radius * Math.sin(theta) * Math.cos(phi),
+      y: radius * Math.sin(theta) * Math.sin(phi),
+      z: radius * Math.cos(theta),
+      w: -halfHeight + (k / heightSegments) * 2 * halfHeight,
+    };
+  });
+  return builder.build('#99ff99');
+}
+
+// Cubinder: a disk times a square. Drawn as its side, a circle swept over the ZW square.
+export function createCubinder(options?: {
+  radius?: number;          // disk radius in the XY plane
+  halfSize?: number;        // half-extent of the square along Z and W
+  segments?: number;        // samples around the circle
+  squareSegments?: number;  // divisions of the square per axis
+}): Shape4D {
+  const radius = options?.radius ?? 1.5;
+  const halfSize = options?.halfSize ?? 1.5;
+  const segments = options?.segments ?? 16;
+  const squareSegments = options?.squareSegments ?? 4;
+
+  const builder = new LatticeBuilder();
+  builder.addLattice([segments, squareSegments + 1, squareSegments + 1], [true, false, false], (i, j, k) => {
+    const u = (i / segments) * TAU;
+    return {
+      x: radius * Math.cos(u),
+      y: radius * Math.sin(u),
+      z: -halfSize + (j / squareSegments) * 2 * halfSize,
+      w: -halfSize + (k / squareSegments) * 2 * halfSize,
+    };
+  });
+  return builder.build('#ffcc99');
+}
@@ -9,6 +9,36 @@ function bitCount(n: number): number {
   return count;
 }
 
+// Quads of a (divisions x divisions) grid, wound consistently around each cell
+function createGridFaces(divisions: number, index: (ix: number, iz: number) => number): number[][] {
+  const faces: number[][] = [];
+  for (let iz = 0; iz < divisions; iz++) {
+    for (let ix = 0; ix < divisions; ix++) {
+      faces.push([index(ix, iz), index(ix + 1, iz), index(ix + 1, iz + 1), index(ix, iz + 1)]);
+    }
+  }
+  return faces;
+}
+
+// Element counts of a generated shape, known before building it
+export interface ShapeCounts {
+  vertices: number;
+  edges: number;
+  faces: number;
+}
+
+// Above this many vertices a shape needs 32-bit indices and gets slow to transform on the CPU
+export const LARGE_SHAPE_VERTEX_COUNT = 65536;
+
+// Counts of the flat and hills planes, which are all (divisions x divisions) grids
+export function countGridPlane(divisions: number): ShapeCounts {
+  return {
+    vertices: (divisions + 1) * (divisions + 1),
+    edges: 2 * divisions * (divisions + 1),
+    faces: divisions * divisions,
+  };
+}
+
 export function createCube(size: number = 1): Shape4D {
   const vertices: Vector4D[] = [];
   for (let i = 0; i < 16; i++) {
@@ -29,9 +59,40 @@ export function createCube(size: number = 1): Shape4D {
     }
   }
 
+  // One square for every pair of axes and every corner of the two remaining axes
+  const faces: number[][] = [];
+  const faceAxes: number[][] = [];
+  for (let a = 0; a < 4; a++) {
+    for (let b = a + 1; b < 4; b++) {
+      const bitA = 1 << a;
+      const bitB = 1 << b;
+      for (let base = 0; base < 16; base++) {
+        if (base & (bitA | bitB)) continue;
+        faces.push([base, base | bitA, base | bitA | bitB, base | bitB]);
+        faceAxes.push([a, b]);
+      }
+    }
+  }
+
+  // One cube for each side of each axis, made of the squares lying on that side
+  const cells: number[][] = [];
+  for (let axis = 0; axis < 4; axis++) {
+    for (const side of [0, 1 << axis]) {
+      const cell: number[] = [];
+      faces.forEach((face, f) => {
+        if (!faceAxes[f].includes(axis) && (face[0] & (1 << axis)) === side) {
+          cell.push(f);
+        }
+      });
+      cells.push(cell);
+    }
+  }
+
   return {
     vertices,
     edges,
+    faces,
+    cells,
     position: { x: 0, y: 0, z: 0, w: 0 }
   };
 }
@@ -78,6 +139,8 @@ export function createGroundPlane(options?: {
   return {
     vertices,
     edges,
+    faces: createGridFaces(divisions, index),
+    lattice: { divisions: [divisions, divisions, 0] },
     position: { x: 0, y: 0, z: 0, w: 0 },
     affectedByGlobalTransform: false,
     color: '#ffffff'
@@ -136,6 +199,8 @@ export function createHillsPlane(options?: {
   return {
     vertices,
     edges,
+    faces: createGridFaces(divisions, index),
+    lattice: { divisions: [divisions, divisions, 0] },
     position: { x: 0, y: 0, z: 0, w: 0 },
     affectedByGlobalTransform: false,
     // color: '#ff8c00'
@@ -143,25 +208,45 @@ export function createHillsPlane(options?: {
   };
 }
 
-export function createGreenPlane(options?: {
+export interface GreenPlaneOptions {
   size?: number;        // half-extent along X and Z
   divisions?: number;   // grid divisions (per X/Z axis)
   y?: number;           // base Y placement of hills
   w?: number;           // legacy: single W slice (kept for compatibility)
   wSize?: number;       // half-extent along W to extrude the surface
   wDivisions?: number;  // grid divisions along W
-}): Shape4D {
+}
+
+// Grid resolution of the green plane, shared by the generator and countGreenPlane
+function greenPlaneDivisions(options?: GreenPlaneOptions) {
   const size = options?.size ?? 10;
   const baseSize = 10;
   const baseDivisions = 24;
   // Keep fragment density constant by scaling divisions with size
   const divisions = options?.divisions ?? Math.max(8, Math.round(baseDivisions * (size / baseSize)));
+  const wSize = options?.wSize;
+  const wDivisions = options?.wDivisions ?? (wSize ? Math.max(2, Math.round(baseDivisions * ((wSize * 2) / baseSize))) : 0);
+  return { divisions, wDivisions: wSize ? wDivisions : 0 };
+}
+
+export function countGreenPlane(options?: GreenPlaneOptions): ShapeCounts {
+  const { divisions, wDivisions } = greenPlaneDivisions(options);
+  const slice = countGridPlane(divisions);
+  return {
+    vertices: slice.vertices * (wDivisions + 1),
+    edges: slice.edges * (wDivisions + 1) + slice.vertices * wDivisions,
+    faces: slice.faces * (wDivisions + 1) + 2 * wDivisions * divisions * (divisions + 1),
+  };
+}
+
+export function createGreenPlane(options?: GreenPlaneOptions): Shape4D {
+  const size = options?.size ?? 10;
+  const { divisions, wDivisions } = greenPlaneDivisions(options);
   const baseY = options?.y ?? -3.5;
   const amplitude = 0.8;
 
   // If wSize is not provided, fall back to a single-slice plane at provided w (legacy behavior)
   const wSize = options?.wSize;
-  const wDivisions = options?.wDivisions ?? (wSize ? Math.max(2, Math.round(baseDivisions * ((wSize * 2) / baseSize))) : 0);
   const legacyW = options?.w ?? 0;
 
   // Helpers
@@ -170,6 +255,8 @@ export function createGreenPlane(options?: {
 
   const vertices: Vector4D[] = [];
   const edges: number[][] = [];
+  const faces: number[][] = [];
+  const cells: number[][] = [];
 
   const computeHeight = (x: number, z: number, wParam: number) => {
     // wParam in [-wSize, wSize] (or single legacy value). Build a smooth morph factor in [0,1]
@@ -212,6 +299,7 @@ export function createGreenPlane(options?: {
         edges.push([index(ix, iz), index(ix, iz + 1)]);
       }
     }
+    faces.push(...createGridFaces(divisions, index));
   } else {
     // Extruded along W: 3D lattice in X, Z, W
     const verticesPerSlice = (divisions + 1) * (divisions + 1);
@@ -253,11 +341,52 @@ export function createGreenPlane(options?: {
         }
       }
     }
+
+    // Quads in the XZ plane of every W slice, then in the XW and ZW planes between slices
+    const xzFace = (ix: number, iz: number, iw: number) => (iw * divisions + iz) * divisions + ix;
+    const xwOffset = (wDivisions + 1) * divisions * divisions;
+    const xwFace = (ix: number, iz: number, iw: number) => xwOffset + (iw * (divisions + 1) + iz) * divisions + ix;
+    const zwOffset = xwOffset + wDivisions * (divisions + 1) * divisions;
+    const zwFace = (ix: number, iz: number, iw: number) => zwOffset + (iw * (divisions + 1) + ix) * divisions + iz;
+
+    for (let iw = 0; iw <= wDivisions; iw++) {
+      faces.push(...createGridFaces(divisions, (ix, iz) => index(ix, iz, iw)));
+    }
+    for (let iw = 0; iw < wDivisions; iw++) {
+      for (let iz = 0; iz <= divisions; iz++) {
+        for (let ix = 0; ix < divisions; ix++) {
+          faces.push([index(ix, iz, iw), index(ix + 1, iz, iw), index(ix + 1, iz, iw + 1), index(ix, iz, iw + 1)]);
+        }
+      }
+    }
+    for (let iw = 0; iw < wDivisions; iw++) {
+      for (let ix = 0; ix <= divisions; ix++) {
+        for (let iz = 0; iz < divisions; iz++) {
+          faces.push([index(ix, iz, iw), index(ix, iz + 1, iw), index(ix, iz + 1, iw + 1), index(ix, iz, iw + 1)]);
+        }
+      }
+    }
+
+    // Every box of the lattice is a cell bounded by six of those quads
+    for (let iw = 0; iw < wDivisions; iw++) {
+      for (let iz = 0; iz < divisions; iz++) {
+        for (let ix = 0; ix < divisions; ix++) {
+          cells.push([
+            xzFace(ix, iz, iw), xzFace(ix, iz, iw + 1),
+            xwFace(ix, iz, iw), xwFace(ix, iz + 1, iw),
+            zwFace(ix, iz, iw), zwFace(ix + 1, iz, iw),
+          ]);
+        }
+      }
+    }
   }
 
   return {
     vertices,
     edges,
+    faces,
+    cells: cells.length > 0 ? cells : undefined,
+    lattice: { divisions: [divisions, divisions, wDivisions] },
     position: { x: 0, y: 0, z: 0, w: 0 },
     affectedByGlobalTransform: false,
     color: 'green'
@@ -308,6 +437,8 @@ export function createBluePlane(options?: {
   return {
     vertices,
     edges,
+    faces: createGridFaces(divisions, index),
+    lattice: { divisions: [divisions, divisions, 0] },
     position: { x: 0, y: 0, z: 0, w: 0 },
     affectedByGlobalTransform: false,
     color: '#0066ff'
@@ -0,0 +1,175 @@
+import { Shape4D } from '@/types/4d';
+import {
+  ShapeCounts,
+  countGreenPlane,
+  countGridPlane,
+  createBluePlane,
+  createCube,
+  createGreenPlane,
+  createGroundPlane
+} from '@/shapes/definitions';
+import { REGULAR_POLYTOPES } from '@/shapes/polytopes';
+import {
+  createCliffordTorus,
+  createCubinder,
+  createDuocylinder,
+  createGlome,
+  createSpherinder
+} from '@/shapes/curved';
+import { validateTopology } from '@/shapes/topology';
+
+export type ShapeParams = Record<string, number>;
+
+// A numeric generator parameter, edited with a slider
+export interface ShapeParameter {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export interface ShapeGenerator {
+  id: string;
+  label: string;
+  group: 'Basic' | 'Planes' | 'Regular polytopes' | 'Curved';
+  parameters: ShapeParameter[];
+  create: (params: ShapeParams) => Shape4D;
+  // Sizes for the given parameters, so large shapes can be reported before they are built
+  count?: (params: ShapeParams) => ShapeCounts;
+  // Euler characteristic of the built shape, where it does not depend on the parameters
+  euler?: number;
+}
+
+const radius = (fallback: number): ShapeParameter =>
+  ({ key: 'radius', label: 'Radius', min: 0.5, max: 5, step: 0.5, default: fallback });
+const divisions: ShapeParameter = { key: 'divisions', label: 'Divisions', min: 2, max: 96, step: 1, default: 24 };
+const y = (fallback: number): ShapeParameter => ({ key: 'y', label: 'Y', min: -6, max: 6, step: 0.5, default: fallback });
+const w = (fallback: number): ShapeParameter => ({ key: 'w', label: 'W', min: -5, max: 5, step: 0.5, default: fallback });
+const planeSize: ShapeParameter = { key: 'size', label: 'Size', min: 2, max: 30, step: 1, default: 10 };
+// Resolution of a curved shape; periodic directions need at least three samples
+const segments = (key: string, label: string, min: number, max: number, fallback: number): ShapeParameter =>
+  ({ key, label, min, max, step: 1, default: fallback });
+
+export const SHAPE_GENERATORS: ShapeGenerator[] = [
+  {
+    id: 'tesseract',
+    label: 'Tesseract',
+    group: 'Basic',
+    parameters: [{ key: 'size', label: 'Half size', min: 0.25, max: 4, step: 0.25, default: 1.5 }],
+    create: (p) => createCube(p.size),
+    euler: 0,
+  },
+  {
+    id: 'white-plane',
+    label: 'White plane',
+    group: 'Planes',
+    parameters: [planeSize, divisions, y(-3), w(0)],
+    create: (p) => createGroundPlane(p),
+    count: (p) => countGridPlane(p.divisions),
+    euler: 1,
+  },
+  {
+    id: 'green-plane',
+    label: 'Green plane',
+    group: 'Planes',
+    parameters: [
+      { ...planeSize, default: 15 },
+      y(-2),
+      { key: 'wSize', label: 'W size', min: 0.5, max: 5, step: 0.5, default: 2 },
+      { key: 'wDivisions', label: 'W slices', min: 2, max: 96, step: 1, default: 24 },
+    ],
+    create: (p) => createGreenPlane(p),
+    count: (p) => countGreenPlane(p),
+    euler: 1,
+  },
+  {
+    id: 'blue-plane',
+    label: 'Blue plane',
+    group: 'Planes',
+    parameters: [planeSize, divisions, y(-1), w(1)],
+    create: (p) => createBluePlane(p),
+    count: (p) => countGridPlane(p.divisions),
+    euler: 1,
+  },
+  ...REGULAR_POLYTOPES.map((polytope): ShapeGenerator => ({
+    id: polytope.id,
+    label: polytope.label,
+    group: 'Regular polytopes',
+    parameters: [radius(3)],
+    create: (p) => ({ ...polytope.create(p.radius), color: '#ffcc66' }),
+    euler: 0,
+  })),
+  {
+    id: 'glome',
+    label: '3-sphere (glome)',
+    group: 'Curved',
+    parameters: [radius(2), segments('etaSegments', 'Tori', 2, 16, 6), segments('xiSegments', 'Circle samples', 3, 32, 16)],
+    create: (p) => createGlome(p),
+  },
+  {
+    id: 'clifford-torus',
+    label: 'Clifford torus',
+    group: 'Curved',
+    parameters: [radius(2), segments('uSegments', 'U samples', 3, 96, 24), segments('vSegments', 'V samples', 3, 96, 24)],
+    create: (p) => createCliffordTorus(p),
+    euler: 0,
+  },
+  {
+    id: 'duocylinder',
+    label: 'Duocylinder',
+    group: 'Curved',
+    parameters: [
+      { ...radius(1.5), key: 'radius1', label: 'XY radius' },
+      { ...radius(1.5), key: 'radius2', label: 'ZW radius' },
+      segments('segments', 'Circle samples', 3, 32, 16),
+      segments('radialSegments', 'Rings', 1, 8, 3),
+    ],
+    create: (p) => createDuocylinder(p),
+  },
+  {
+    id: 'spherinder',
+    label: 'Spherinder',
+    group: 'Curved',
+    parameters: [
+      radius(1.5),
+      { key: 'halfHeight', label: 'W half size', min: 0.5, max: 4, step: 0.5, default: 1.5 },
+      segments('latitudeSegments', 'Latitudes', 2, 24, 8),
+      segments('longitudeSegments', 'Longitudes', 3, 48, 16),
+      segments('heightSegments', 'W slices', 1, 12, 4),
+    ],
+    create: (p) => createSpherinder(p),
+  },
+  {
+    id: 'cubinder',
+    label: 'Cubinder',
+    group: 'Curved',
+    parameters: [
+      radius(1.5),
+      { key: 'halfSize', label: 'Half size', min: 0.5, max: 4, step: 0.5, default: 1.5 },
+      segments('segments', 'Circle samples', 3, 64, 16),
+      segments('squareSegments', 'Square slices', 1, 16, 4),
+    ],
+    create: (p) => createCubinder(p),
+  },
+];
+
+export function findGenerator(id: string): ShapeGenerator | undefined {
+  return SHAPE_GENERATORS.find(generator => generator.id === id);
+}
+
+// Builds the generator's shape. Development builds also check its topology, so a generator
+// that produces inconsistent edges, faces or cells is noticed.
+export function buildShape(generator: ShapeGenerator, params: ShapeParams): Shape4D {
+  const shape = generator.create(params);
+  if (process.env.NODE_ENV === 'development') {
+    const report = validateTopology(shape, { expectedEuler: generator.euler });
+    if (!report.valid) console.warn(`Generator "${generator.id}" built an inconsistent shape:`, report.errors);
+  }
+  return shape;
+}
+
+export function defaultParams(generator: ShapeGenerator): ShapeParams {
+  return Object.fromEntries(generator.parameters.map(parameter => [parameter.key, parameter.default]));
+}
@@ -0,0 +1,149 @@
+import { LatticeInfo, LodSettings, Shape4D, Vector4D, Vector4DUtils } from '@/types/4d';
+
+export const DEFAULT_LOD_SETTINGS: LodSettings = {
+  enabled: false,
+  baseDistance: 12,
+  hysteresis: 0.15,
+};
+
+// Lattices are split into tiles of this many cells per axis, each with its own level.
+// Level k keeps every 2^k-th lattice line, so the coarsest level spans a whole tile.
+export const LOD_TILE_SIZE = 8;
+export const MAX_LOD_LEVEL = Math.log2(LOD_TILE_SIZE);
+
+export interface LodTile {
+  start: [number, number, number]; // First lattice coordinate along X, Z and W
+  end: [number, number, number];   // Last lattice coordinate, inclusive
+  center: number;                  // Index of the vertex closest to the tile's centre
+}
+
+export function latticeIndex(lattice: LatticeInfo, ix: number, iz: number, iw: number): number {
+  const [nx, nz] = lattice.divisions;
+  return (iw * (nz + 1) + iz) * (nx + 1) + ix;
+}
+
+export function createLodTiles(lattice: LatticeInfo): LodTile[] {
+  const ranges = lattice.divisions.map(n => {
+    const result: [number, number][] = [];
+    for (let start = 0; start < n; start += LOD_TILE_SIZE) {
+      result.push([start, Math.min(start + LOD_TILE_SIZE, n)]);
+    }
+    return result.length > 0 ? result : [[0, 0] as [number, number]];
+  });
+
+  const tiles: LodTile[] = [];
+  for (const [w0, w1] of ranges[2]) {
+    for (const [z0, z1] of ranges[1]) {
+      for (const [x0, x1] of ranges[0]) {
+        const mid = (a: number, b: number) => Math.round((a + b) / 2);
+        tiles.push({
+          start: [x0, z0, w0],
+          end: [x1, z1, w1],
+          center: latticeIndex(lattice, mid(x0, x1), mid(z0, z1), mid(w0, w1)),
+        });
+      }
+    }
+  }
+  return tiles;
+}
+
+// Level for a tile at the given distance. Boundaries lie at baseDistance * 2^k; the level
+// only changes once the distance is past a boundary by the hysteresis fraction, so tiles
+// near a boundary do not flicker between levels.
+export function selectLodLevel(distance: number, current: number, settings: LodSettings): number {
+  const boundary = (level: number) => settings.baseDistance * 2 ** level;
+  let level = current;
+  while (level < MAX_LOD_LEVEL && distance >= boundary(level) * (1 + settings.hysteresis)) level++;
+  while (level > 0 && distance < boundary(level - 1) * (1 - settings.hysteresis)) level--;
+  return level;
+}
+
+// Rebuild a lattice shape keeping, in each tile, every 2^level-th line plus the tile's
+// boundary lines. Unused vertices are dropped and the rest renumbered.
+export function decimateLattice(shape: Shape4D, tiles: LodTile[], levels: number[]): Shape4D {
+  const lattice = shape.lattice!;
+  const vertices: Vector4D[] = [];
+  const remap = new Map<number, number>();
+  const edges: number[][] = [];
+  const edgeKeys = new Set<string>();
+  const faces: number[][] = [];
+  const faceKeys = new Set<string>();
+
+  const vertexAt = (ix: number, iz: number, iw: number) => {
+    const original = latticeIndex(lattice, ix, iz, iw);
+    let index = remap.get(original);
+    if (index === undefined) {
+      index = vertices.length;
+      vertices.push(shape.vertices[original]);
+      remap.set(original, index);
+    }
+    return index;
+  };
+  const addEdge = (a: number, b: number) => {
+    const key = a < b ? `${a}-${b}` : `${b}-${a}`;
+    if (edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    edges.push([a, b]);
+  };
+  const addFace = (face: number[]) => {
+    const key = [...face].sort((a, b) => a - b).join(',');
+    if (faceKeys.has(key)) return;
+    faceKeys.add(key);
+    faces.push(face);
+  };
+
+  tiles.forEach((tile, t) => {
+    const stride = 2 ** levels[t];
+    // Kept lattice coordinates along each axis, always including both tile ends
+    const kept = [0, 1, 2].map(axis => {
+      const result: number[] = [];
+      for (let i = tile.start[axis]; i < tile.end[axis]; i += stride) result.push(i);
+      result.push(tile.end[axis]);
+      return result;
+    });
+    const [xs, zs, ws] = kept;
+
+    for (let c = 0; c < ws.length; c++) {
+      for (let b = 0; b < zs.length; b++) {
+        for (let a = 0; a < xs.length; a++) {
+          const here = vertexAt(xs[a], zs[b], ws[c]);
+          const nextX = a + 1 < xs.length ? vertexAt(xs[a + 1], zs[b], ws[c]) : -1;
+          const nextZ = b + 1 < zs.length ? vertexAt(xs[a], zs[b + 1], ws[c]) : -1;
+          const nextW = c + 1 < ws.length ? vertexAt(xs[a], zs[b], ws[c + 1]) : -1;
+          if (nextX >= 0) addEdge(here, nextX);
+          if (nextZ >= 0) addEdge(here, nextZ);
+          if (nextW >= 0) addEdge(here, nextW);
+          if (nextX >= 0 && nextZ >= 0) {
+            addFace([here, nextX, vertexAt(xs[a + 1], zs[b + 1], ws[c]), nextZ]);
+          }
+          if (nextX >= 0 && nextW >= 0) {
+            addFace([here, nextX, vertexAt(xs[a + 1], zs[b], ws[c + 1]), nextW]);
+          }
+          if (nextZ >= 0 && nextW >= 0) {
+            addFace([here, nextZ, vertexAt(xs[a], zs[b + 1], ws[c + 1]), nextW]);
+          }
+        }
+      }
+    }
+  });
+
+  return {
+    ...shape,
+    vertices,
+    edges,
+    faces: shape.faces ? faces : undefined,
+    cells: undefined,
+    lattice: undefined,
+  };
+}
+
+// Distance used to pick a tile's level: the 3D distance from the camera to the projected
+// tile centre, combined with the centre's distance in W from the observer's hyperplane
+export function lodDistance(projected: { x: number; y: number; z: number }, view: Vector4D, camera: { x: number; y: number; z: number }): number {
+  const d3 = Math.hypot(projected.x - camera.x, projected.y - camera.y, projected.z - camera.z);
+  return Math.hypot(d3, view.w);
+}
+
+export function tileCenter(shape: Shape4D, tile: LodTile): Vector4D {
+  return Vector4DUtils.add(shape.vertices[tile.center], shape.position);
+}
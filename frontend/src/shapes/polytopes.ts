@@ -0,0 +1,241 @@
+import { Shape4D, Vector4D, Vector4DUtils } from '@/types/4d';
+import { createCube } from '@/shapes/definitions';
+
+const PHI = (1 + Math.sqrt(5)) / 2;
+const EPSILON = 1e-6;
+
+// Permutations of four coordinate slots, each tagged with its parity
+const PERMUTATIONS: { order: number[]; even: boolean }[] = (() => {
+  const result: { order: number[]; even: boolean }[] = [];
+  const permute = (order: number[], rest: number[]) => {
+    if (rest.length === 0) {
+      let inversions = 0;
+      for (let i = 0; i < 4; i++) {
+        for (let j = i + 1; j < 4; j++) {
+          if (order[i] > order[j]) inversions++;
+        }
+      }
+      result.push({ order, even: inversions % 2 === 0 });
+      return;
+    }
+    rest.forEach((slot, i) => permute([...order, slot], rest.filter((_, j) => j !== i)));
+  };
+  permute([], [0, 1, 2, 3]);
+  return result;
+})();
+
+// All sign changes and (even or all) permutations of a base coordinate tuple, without duplicates
+function expandCoordinates(base: number[], evenPermutationsOnly: boolean = false): Vector4D[] {
+  const seen = new Set<string>();
+  const result: Vector4D[] = [];
+  for (let signs = 0; signs < 16; signs++) {
+    const signed = base.map((value, i) => ((signs >> i) & 1 ? -value : value));
+    for (const { order, even } of PERMUTATIONS) {
+      if (evenPermutationsOnly && !even) continue;
+      const [x, y, z, w] = order.map(i => signed[i]);
+      const key = [x, y, z, w].map(value => value.toFixed(6)).join(',');
+      if (!seen.has(key)) {
+        seen.add(key);
+        result.push({ x, y, z, w });
+      }
+    }
+  }
+  return result;
+}
+
+// Generalized cross product: a vector orthogonal to the three given ones
+function cross4(u: Vector4D, v: Vector4D, t: Vector4D): Vector4D {
+  const det3 = (a: number, b: number, c: number, d: number, e: number, f: number, g: number, h: number, i: number) =>
+    a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  return {
+    x: det3(u.y, u.z, u.w, v.y, v.z, v.w, t.y, t.z, t.w),
+    y: -det3(u.x, u.z, u.w, v.x, v.z, v.w, t.x, t.z, t.w),
+    z: det3(u.x, u.y, u.w, v.x, v.y, v.w, t.x, t.y, t.w),
+    w: -det3(u.x, u.y, u.z, v.x, v.y, v.z, t.x, t.y, t.z),
+  };
+}
+
+function isPlanar(points: Vector4D[]): boolean {
+  if (points.length <= 3) return true;
+  const origin = points[0];
+  const e1 = Vector4DUtils.subtract(points[1], origin);
+  const u = Vector4DUtils.scale(e1, 1 / Math.sqrt(Vector4DUtils.dot(e1, e1)));
+  let e2 = Vector4DUtils.subtract(points[2], origin);
+  e2 = Vector4DUtils.subtract(e2, Vector4DUtils.scale(u, Vector4DUtils.dot(e2, u)));
+  const v = Vector4DUtils.scale(e2, 1 / Math.sqrt(Vector4DUtils.dot(e2, e2)));
+  return points.slice(3).every(p => {
+    let d = Vector4DUtils.subtract(p, origin);
+    d = Vector4DUtils.subtract(d, Vector4DUtils.scale(u, Vector4DUtils.dot(d, u)));
+    d = Vector4DUtils.subtract(d, Vector4DUtils.scale(v, Vector4DUtils.dot(d, v)));
+    return Vector4DUtils.dot(d, d) < EPSILON;
+  });
+}
+
+// Build a convex regular polytope from its vertices: edges join nearest neighbours,
+// faces are the planar cycles of faceSize edges, and cells are the groups of faces
+// lying in a common supporting hyperplane
+function buildRegularPolytope(points: Vector4D[], faceSize: number, circumradius: number): Shape4D {
+  const vertices = points.map(p => Vector4DUtils.scale(p, circumradius / Math.sqrt(Vector4DUtils.dot(p, p))));
+  const distance2 = (a: number, b: number) => {
+    const d = Vector4DUtils.subtract(vertices[a], vertices[b]);
+    return Vector4DUtils.dot(d, d);
+  };
+
+  let edgeLength2 = Infinity;
+  for (let i = 0; i < vertices.length; i++) {
+    for (let j = i + 1; j < vertices.length; j++) {
+      edgeLength2 = Math.min(edgeLength2, distance2(i, j));
+    }
+  }
+
+  const edges: number[][] = [];
+  const adjacency: number[][] = vertices.map(() => []);
+  for (let i = 0; i < vertices.length; i++) {
+    for (let j = i + 1; j < vertices.length; j++) {
+      if (Math.abs(distance2(i, j) - edgeLength2) < EPSILON * edgeLength2) {
+        edges.push([i, j]);
+        adjacency[i].push(j);
+        adjacency[j].push(i);
+      }
+    }
+  }
+
+  // Each cycle is found once: from its smallest vertex, in the direction of its smaller neighbour
+  const faces: number[][] = [];
+  const extend = (path: number[]) => {
+    const last = path[path.length - 1];
+    if (path.length === faceSize) {
+      if (adjacency[last].includes(path[0]) && path[1] < last && isPlanar(path.map(v => vertices[v]))) {
+        faces.push([...path]);
+      }
+      return;
+    }
+    for (const next of adjacency[last]) {
+      if (next > path[0] && !path.includes(next)) {
+        path.push(next);
+        extend(path);
+        path.pop();
+      }
+    }
+  };
+  for (let start = 0; start < vertices.length; start++) {
+    extend([start]);
+  }
+
+  const edgeKey = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+  const facesByEdge = new Map<string, number[]>();
+  faces.forEach((face, f) => {
+    face.forEach((v, i) => {
+      const key = edgeKey(v, face[(i + 1) % face.length]);
+      facesByEdge.set(key, [...(facesByEdge.get(key) ?? []), f]);
+    });
+  });
+
+  // Two faces sharing an edge span a hyperplane; it bounds a cell exactly when every
+  // vertex lies on one side of it
+  const cellFaces = new Map<string, Set<number>>();
+  for (const shared of facesByEdge.values()) {
+    for (let i = 0; i < shared.length; i++) {
+      for (let j = i + 1; j < shared.length; j++) {
+        const f = faces[shared[i]];
+        const apex = faces[shared[j]].find(v => !f.includes(v))!;
+        const origin = vertices[f[0]];
+        let normal = cross4(
+          Vector4DUtils.subtract(vertices[f[1]], origin),
+          Vector4DUtils.subtract(vertices[f[2]], origin),
+          Vector4DUtils.subtract(vertices[apex], origin)
+        );
+        normal = Vector4DUtils.scale(normal, 1 / Math.sqrt(Vector4DUtils.dot(normal, normal)));
+        let offset = Vector4DUtils.dot(normal, origin);
+        if (offset < 0) {
+          normal = Vector4DUtils.scale(normal, -1);
+          offset = -offset;
+        }
+        if (vertices.some(v => Vector4DUtils.dot(normal, v) > offset + EPSILON)) continue;
+
+        // Adding 0 folds -0 into 0 so tiny negative components do not split a cell
+        const key = [normal.x, normal.y, normal.z, normal.w].map(value => (Math.round(value * 1e4) + 0) / 1e4).join(',');
+        const cell = cellFaces.get(key) ?? new Set<number>();
+        cell.add(shared[i]).add(shared[j]);
+        cellFaces.set(key, cell);
+      }
+    }
+  }
+  const cells = [...cellFaces.values()].map(cell => [...cell].sort((a, b) => a - b));
+
+  return {
+    vertices,
+    edges,
+    faces,
+    cells,
+    position: { x: 0, y: 0, z: 0, w: 0 }
+  };
+}
+
+// 5-cell (pentachoron): 5 vertices, 10 edges, 10 triangles, 5 tetrahedra
+export function create5Cell(circumradius: number = 1.5): Shape4D {
+  const s = 1 / Math.sqrt(5);
+  const points: Vector4D[] = [
+    { x: 1, y: 1, z: 1, w: -s },
+    { x: 1, y: -1, z: -1, w: -s },
+    { x: -1, y: 1, z: -1, w: -s },
+    { x: -1, y: -1, z: 1, w: -s },
+    { x: 0, y: 0, z: 0, w: 4 * s },
+  ];
+  return buildRegularPolytope(points, 3, circumradius);
+}
+
+// 8-cell (tesseract): 16 vertices, 32 edges, 24 squares, 8 cubes
+export function create8Cell(circumradius: number = 1.5): Shape4D {
+  // The cube of half-edge s has circumradius 2s
+  return createCube(circumradius / 2);
+}
+
+// 16-cell (hexadecachoron): 8 vertices, 24 edges, 32 triangles, 16 tetrahedra
+export function create16Cell(circumradius: number = 1.5): Shape4D {
+  return buildRegularPolytope(expandCoordinates([1, 0, 0, 0]), 3, circumradius);
+}
+
+// 24-cell (icositetrachoron): 24 vertices, 96 edges, 96 triangles, 24 octahedra
+export function create24Cell(circumradius: number = 1.5): Shape4D {
+  return buildRegularPolytope(expandCoordinates([1, 1, 0, 0]), 3, circumradius);
+}
+
+// 120-cell (hecatonicosachoron): 600 vertices, 1200 edges, 720 pentagons, 120 dodecahedra
+export function create120Cell(circumradius: number = 1.5): Shape4D {
+  const points = [
+    ...expandCoordinates([0, 0, 2, 2]),
+    ...expandCoordinates([1, 1, 1, Math.sqrt(5)]),
+    ...expandCoordinates([PHI ** -2, PHI, PHI, PHI]),
+    ...expandCoordinates([1 / PHI, 1 / PHI, 1 / PHI, PHI ** 2]),
+    ...expandCoordinates([0, PHI ** -2, 1, PHI ** 2], true),
+    ...expandCoordinates([0, 1 / PHI, PHI, Math.sqrt(5)], true),
+    ...expandCoordinates([1 / PHI, 1, PHI, 2], true),
+  ];
+  return buildRegularPolytope(points, 5, circumradius);
+}
+
+// 600-cell (hexacosichoron): 120 vertices, 720 edges, 1200 triangles, 600 tetrahedra
+export function create600Cell(circumradius: number = 1.5): Shape4D {
+  const points = [
+    ...expandCoordinates([1, 0, 0, 0]),
+    ...expandCoordinates([0.5, 0.5, 0.5, 0.5]),
+    ...expandCoordinates([PHI / 2, 0.5, 1 / (2 * PHI), 0], true),
+  ];
+  return buildRegularPolytope(points, 3, circumradius);
+}
+
+export interface RegularPolytope {
+  id: string;
+  label: string;
+  create: (circumradius?: number) => Shape4D;
+}
+
+export const REGULAR_POLYTOPES: RegularPolytope[] = [
+  { id: '5-cell', label: '5-cell', create: create5Cell },
+  { id: '8-cell', label: '8-cell (tesseract)', create: create8Cell },
+  { id: '16-cell', label: '16-cell', create: create16Cell },
+  { id: '24-cell', label: '24-cell', create: create24Cell },
+  { id: '120-cell', label: '120-cell', create: create120Cell },
+  { id: '600-cell', label: '600-cell', create: create600Cell },
+];
@@ -0,0 +1,374 @@
+import {
+  Axis4D,
+  Camera4D,
+  NavigationMode,
+  Orientation4D,
+  Orientation4DUtils,
+  ProjectionMode,
+  ProjectionSettings,
+  Shape4D,
+  Transform4D,
+  Vector4D
+} from '@/types/4d';
+import { AXES_4D, PROJECTIONS } from '@/math/projection';
+import { ShapeParameter, defaultParams, findGenerator } from '@/shapes/generators';
+import { validateTopology } from '@/shapes/topology';
+import { NewSceneEntry, SceneEntry } from '@/store/sceneStore';
+
+// Scene files are JSON documents described in docs/scene-format.md
+export const SCENE_FORMAT = 'cztery-de-scene';
+export const SCENE_FORMAT_VERSION = 1;
+
+// Vectors are stored as [x, y, z, w] and orientations as four rows of four numbers
+type Vector4Json = [number, number, number, number];
+
+interface TransformJson {
+  orientation: Orientation4D;
+  translation: Vector4Json;
+}
+
+interface GeometryJson {
+  vertices: Vector4Json[];
+  edges: [number, number][];
+  faces?: number[][];
+  position?: Vector4Json;
+}
+
+export interface SceneShapeJson {
+  id: string;
+  label: string;
+  color: string;
+  visible: boolean;
+  followsNavigation: boolean;
+  depthCue: boolean;
+  parent: string | null;
+  transform: TransformJson;
+  // Exactly one of these: a generator with its parameters, or inline geometry
+  generator?: { name: string; params: Record<string, number> };
+  geometry?: GeometryJson;
+}
+
+export interface SceneFile {
+  format: typeof SCENE_FORMAT;
+  version: number;
+  shapes: SceneShapeJson[];
+  navigation: NavigationMode;
+  // Transform of the shapes that follow navigation in object mode
+  objectTransform: TransformJson;
+  camera: { position: Vector4Json; orientation: Orientation4D; fov: number };
+  projection: ProjectionSettings;
+}
+
+// Everything wrong with a file, one issue per line, each prefixed with its JSON path
+export class SceneFormatError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid scene file:\n${issues.join('\n')}`);
+    this.name = 'SceneFormatError';
+  }
+}
+
+const toJson = (v: Vector4D): Vector4Json => [v.x, v.y, v.z, v.w];
+const fromJson = ([x, y, z, w]: Vector4Json): Vector4D => ({ x, y, z, w });
+const transformToJson = (t: Transform4D): TransformJson =>
+  ({ orientation: t.orientation.map(row => [...row]), translation: toJson(t.translation) });
+const transformFromJson = (t: TransformJson): Transform4D =>
+  ({ orientation: t.orientation.map(row => [...row]), translation: fromJson(t.translation) });
+
+export function serializeScene(scene: {
+  entries: SceneEntry[];
+  navigation: NavigationMode;
+  transform: Transform4D;
+  camera: Camera4D;
+  projection: ProjectionSettings;
+}): SceneFile {
+  return {
+    format: SCENE_FORMAT,
+    version: SCENE_FORMAT_VERSION,
+    shapes: scene.entries.map(entry => ({
+      id: entry.id,
+      label: entry.label,
+      color: entry.color,
+      visible: entry.visible,
+      followsNavigation: entry.affectedByGlobalTransform,
+      depthCue: entry.depthCue,
+      parent: entry.parentId,
+      transform: transformToJson(entry.transform),
+      ...(entry.generator
+        ? { generator: { name: entry.generator, params: { ...entry.params } } }
+        : {
+          geometry: {
+            vertices: entry.shape.vertices.map(toJson),
+            edges: entry.shape.edges.map(([a, b]) => [a, b] as [number, number]),
+            ...(entry.shape.faces ? { faces: entry.shape.faces } : {}),
+            position: toJson(entry.shape.position),
+          },
+        }),
+    })),
+    navigation: scene.navigation,
+    objectTransform: transformToJson(scene.transform),
+    camera: { position: toJson(scene.camera.position), orientation: scene.camera.orientation, fov: scene.camera.fov },
+    projection: scene.projection,
+  };
+}
+
+// Collects issues while walking a parsed document
+class Validator {
+  readonly issues: string[] = [];
+
+  fail(path: string, message: string) {
+    this.issues.push(`${path}: ${message}`);
+    return false;
+  }
+
+  object(value: unknown, path: string): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) || this.fail(path, 'expected an object');
+  }
+
+  number(value: unknown, path: string): value is number {
+    return typeof value === 'number' && Number.isFinite(value) || this.fail(path, 'expected a finite number');
+  }
+
+  boolean(value: unknown, path: string): value is boolean {
+    return typeof value === 'boolean' || this.fail(path, 'expected true or false');
+  }
+
+  string(value: unknown, path: string): value is string {
+    return typeof value === 'string' || this.fail(path, 'expected a string');
+  }
+
+  oneOf<T extends string>(value: unknown, options: readonly T[], path: string): value is T {
+    return options.includes(value as T) || this.fail(path, `expected one of ${options.map(o => `"${o}"`).join(', ')}`);
+  }
+
+  array(value: unknown, path: string, length?: number): value is unknown[] {
+    if (!Array.isArray(value)) return this.fail(path, 'expected an array');
+    if (length !== undefined && value.length !== length) return this.fail(path, `expected ${length} items, got ${value.length}`);
+    return true;
+  }
+
+  numbers(value: unknown, path: string, length?: number): value is number[] {
+    return this.array(value, path, length) && value.every((item, i) => this.number(item, `${path}[${i}]`));
+  }
+
+  vector(value: unknown, path: string): value is Vector4Json {
+    return this.numbers(value, path, 4);
+  }
+
+  // Row-major 4x4 matrix whose rows are orthonormal
+  orientation(value: unknown, path: string): value is Orientation4D {
+    if (!this.array(value, path, 4) || !value.every((row, i) => this.numbers(row, `${path}[${i}]`, 4))) return false;
+    const rows = value as number[][];
+    for (let i = 0; i < 4; i++) {
+      for (let j = i; j < 4; j++) {
+        const dot = rows[i].reduce((sum, v, k) => sum + v * rows[j][k], 0);
+        if (Math.abs(dot - (i === j ? 1 : 0)) > 1e-3) return this.fail(path, 'expected a rotation matrix with orthonormal rows');
+      }
+    }
+    return Orientation4DUtils.determinant(rows) > 0 || this.fail(path, 'expected a rotation, not a reflection (determinant -1)');
+  }
+
+  transform(value: unknown, path: string): value is TransformJson {
+    if (!this.object(value, path)) return false;
+    const orientation = this.orientation(value.orientation, `${path}.orientation`);
+    return this.vector(value.translation, `${path}.translation`) && orientation;
+  }
+
+  geometry(value: unknown, path: string): value is GeometryJson {
+    if (!this.object(value, path)) return false;
+    const { vertices, edges, faces, position } = value;
+    if (!this.array(vertices, `${path}.vertices`) || !vertices.every((v, i) => this.vector(v, `${path}.vertices[${i}]`))) {
+      return false;
+    }
+    const index = (i: unknown, itemPath: string) => Number.isInteger(i) && (i as number) >= 0 && (i as number) < vertices.length ||
+      this.fail(itemPath, `expected a vertex index from 0 to ${vertices.length - 1}`);
+    let valid = this.array(edges, `${path}.edges`) &&
+      edges.every((e, i) => this.array(e, `${path}.edges[${i}]`, 2) && e.every((v, j) => index(v, `${path}.edges[${i}][${j}]`)));
+    if (faces !== undefined) {
+      valid = this.array(faces, `${path}.faces`) &&
+        faces.every((f, i) => this.array(f, `${path}.faces[${i}]`) && f.every((v, j) => index(v, `${path}.faces[${i}][${j}]`))) && valid;
+    }
+    if (position !== undefined) valid = this.vector(position, `${path}.position`) && valid;
+    if (!valid) return false;
+    // Well-formed indices can still describe self-loops, repeated edges or faces off the edges
+    const topology = validateTopology({
+      vertices: vertices.map(v => fromJson(v as Vector4Json)),
+      edges: edges as number[][],
+      faces: faces as number[][] | undefined,
+      position: { x: 0, y: 0, z: 0, w: 0 },
+    });
+    topology.errors.forEach(error => this.fail(path, error));
+    return topology.valid;
+  }
+
+  shape(value: unknown, path: string): value is SceneShapeJson {
+    if (!this.object(value, path)) return false;
+    const checks = [
+      this.string(value.id, `${path}.id`),
+      this.string(value.label, `${path}.label`),
+      this.string(value.color, `${path}.color`),
+      this.boolean(value.visible, `${path}.visible`),
+      this.boolean(value.followsNavigation, `${path}.followsNavigation`),
+      this.boolean(value.depthCue, `${path}.depthCue`),
+      value.parent === null || this.string(value.parent, `${path}.parent`),
+      this.transform(value.transform, `${path}.transform`),
+    ];
+    if ((value.generator === undefined) === (value.geometry === undefined)) {
+      checks.push(this.fail(path, 'expected exactly one of "generator" and "geometry"'));
+    } else if (value.generator !== undefined) {
+      checks.push(this.generator(value.generator, `${path}.generator`));
+    } else {
+      checks.push(this.geometry(value.geometry, `${path}.geometry`));
+    }
+    return checks.every(Boolean);
+  }
+
+  generator(value: unknown, path: string): boolean {
+    if (!this.object(value, path) || !this.string(value.name, `${path}.name`)) return false;
+    const generator = findGenerator(value.name);
+    if (!generator) return this.fail(`${path}.name`, `unknown generator "${value.name}"`);
+    if (!this.object(value.params, `${path}.params`)) return false;
+    const params = value.params;
+    return generator.parameters.map(parameter => params[parameter.key] === undefined ||
+      this.parameter(params[parameter.key], parameter, `${path}.params.${parameter.key}`)).every(Boolean);
+  }
+
+  // A generator parameter within its slider's range, and whole where the slider steps by whole numbers
+  parameter(value: unknown, parameter: ShapeParameter, path: string): value is number {
+    if (!this.number(value, path)) return false;
+    if (value < parameter.min || value > parameter.max) {
+      return this.fail(path, `expected a value from ${parameter.min} to ${parameter.max}`);
+    }
+    return !Number.isInteger(parameter.step) || Number.isInteger(value) || this.fail(path, 'expected a whole number');
+  }
+
+  // A number above `min`, or from `min` on when `inclusive`
+  atLeast(value: unknown, min: number, inclusive: boolean, path: string): value is number {
+    if (!this.number(value, path)) return false;
+    return (inclusive ? value >= min : value > min) ||
+      this.fail(path, `expected a number ${inclusive ? 'of at least' : 'greater than'} ${min}`);
+  }
+
+  projection(value: unknown, path: string): value is ProjectionSettings {
+    if (!this.object(value, path)) return false;
+    const d = value.obliqueDirection;
+    return [
+      this.oneOf(value.mode, Object.keys(PROJECTIONS) as ProjectionMode[], `${path}.mode`),
+      this.atLeast(value.distance, 0, false, `${path}.distance`),
+      this.atLeast(value.nearClip, 0, true, `${path}.nearClip`),
+      this.atLeast(value.scale, 0, false, `${path}.scale`),
+      this.object(d, `${path}.obliqueDirection`) &&
+        ['x', 'y', 'z'].every(axis => this.number(d[axis], `${path}.obliqueDirection.${axis}`)),
+      this.number(value.obliqueFactor, `${path}.obliqueFactor`),
+      this.oneOf<Axis4D>(value.droppedAxis, AXES_4D, `${path}.droppedAxis`),
+    ].every(Boolean);
+  }
+}
+
+// Parses and validates a scene file, throwing a SceneFormatError that lists every problem
+export function parseScene(text: string): SceneFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new SceneFormatError([`not valid JSON (${err instanceof Error ? err.message : err})`]);
+  }
+
+  const check = new Validator();
+  if (!check.object(data, '$')) throw new SceneFormatError(check.issues);
+  if (data.format !== SCENE_FORMAT) {
+    throw new SceneFormatError([`$.format: expected "${SCENE_FORMAT}", this is not a scene file`]);
+  }
+  if (!check.number(data.version, '$.version')) throw new SceneFormatError(check.issues);
+  if (!Number.isInteger(data.version) || data.version < 1) {
+    throw new SceneFormatError([`$.version: expected a whole number from 1 to ${SCENE_FORMAT_VERSION}`]);
+  }
+  if (data.version > SCENE_FORMAT_VERSION) {
+    throw new SceneFormatError([`$.version: version ${data.version} is newer than the supported version ${SCENE_FORMAT_VERSION}`]);
+  }
+
+  if (check.array(data.shapes, '$.shapes')) {
+    const shapes = data.shapes;
+    // Every shape is checked, so issues in all of them are reported at once
+    if (shapes.map((shape, i) => check.shape(shape, `$.shapes[${i}]`)).every(Boolean)) {
+      const valid = shapes as SceneShapeJson[];
+      const ids = new Set<string>();
+      valid.forEach((shape, i) => {
+        if (ids.has(shape.id)) check.fail(`$.shapes[${i}].id`, `duplicate id "${shape.id}"`);
+        ids.add(shape.id);
+      });
+      const parents = new Map(valid.map(shape => [shape.id, shape.parent]));
+      valid.forEach((shape, i) => {
+        if (shape.parent === null) return;
+        if (!ids.has(shape.parent)) {
+          check.fail(`$.shapes[${i}].parent`, `no shape has id "${shape.parent}"`);
+          return;
+        }
+        // Walk up the hierarchy; coming back to this shape means a cycle
+        const seen = new Set([shape.id]);
+        for (let parent: string | null | undefined = shape.parent; parent; parent = parents.get(parent)) {
+          if (seen.has(parent)) {
+            check.fail(`$.shapes[${i}].parent`, 'parents form a cycle');
+            return;
+          }
+          seen.add(parent);
+        }
+      });
+    }
+  }
+  check.oneOf<NavigationMode>(data.navigation, ['camera', 'object'], '$.navigation');
+  check.transform(data.objectTransform, '$.objectTransform');
+  if (check.object(data.camera, '$.camera')) {
+    check.vector(data.camera.position, '$.camera.position');
+    check.orientation(data.camera.orientation, '$.camera.orientation');
+    if (check.number(data.camera.fov, '$.camera.fov') && (data.camera.fov <= 0 || data.camera.fov >= 180)) {
+      check.fail('$.camera.fov', 'expected an angle between 0 and 180 degrees');
+    }
+  }
+  check.projection(data.projection, '$.projection');
+
+  if (check.issues.length > 0) throw new SceneFormatError(check.issues);
+  return data as unknown as SceneFile;
+}
+
+// Scene store entries for the shapes of a parsed file
+export function sceneEntriesFromFile(file: SceneFile): NewSceneEntry[] {
+  return file.shapes.map(shape => {
+    const common = {
+      id: shape.id,
+      label: shape.label,
+      color: shape.color,
+      visible: shape.visible,
+      affectedByGlobalTransform: shape.followsNavigation,
+      depthCue: shape.depthCue,
+      parentId: shape.parent,
+      transform: transformFromJson(shape.transform),
+    };
+    if (shape.generator) {
+      // Parameters the file leaves out, e.g. ones added since it was saved, take their defaults
+      const params = { ...defaultParams(findGenerator(shape.generator.name)!), ...shape.generator.params };
+      return { ...common, generator: shape.generator.name, params };
+    }
+    const geometry = shape.geometry!;
+    const inline: Shape4D = {
+      vertices: geometry.vertices.map(fromJson),
+      edges: geometry.edges,
+      ...(geometry.faces ? { faces: geometry.faces } : {}),
+      position: geometry.position ? fromJson(geometry.position) : { x: 0, y: 0, z: 0, w: 0 },
+    };
+    return { ...common, shape: inline };
+  });
+}
+
+export function cameraFromFile(file: SceneFile): Camera4D {
+  return { position: fromJson(file.camera.position), orientation: file.camera.orientation, fov: file.camera.fov };
+}
+
+export function objectTransformFromFile(file: SceneFile): Transform4D {
+  return transformFromJson(file.objectTransform);
+}
+
+// Only the known settings, so unrelated fields in a file never reach the store
+export function projectionFromFile(file: SceneFile): ProjectionSettings {
+  const { mode, distance, nearClip, scale, obliqueDirection: d, obliqueFactor, droppedAxis } = file.projection;
+  return { mode, distance, nearClip, scale, obliqueDirection: { x: d.x, y: d.y, z: d.z }, obliqueFactor, droppedAxis };
+}
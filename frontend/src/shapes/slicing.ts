@@ -0,0 +1,214 @@
+import { Shape4D, Vector4D, Vector4DUtils } from '@/types/4d';
+
+// Hyperplane { p : normal · p = offset }, expressed in view space (after the global transform)
+export interface Hyperplane4D {
+  normal: Vector4D;
+  offset: number;
+}
+
+// The observer's own 3D space: w = 0 after the global transform, so moving along W
+// with Z/X sweeps the scene through it
+export const DEFAULT_SLICE_HYPERPLANE: Hyperplane4D = {
+  normal: { x: 0, y: 0, z: 0, w: 1 },
+  offset: 0,
+};
+
+// Edge/face connectivity needed to slice a shape, precomputed once per shape
+export interface SliceTopology {
+  edges: number[][];
+  // For every face, the indices (into edges) of its boundary edges
+  faceEdges: number[][];
+}
+
+// Reusable output buffers so slicing every frame does not allocate
+export interface CrossSection {
+  // Section points in hyperplane coordinates (x, y, z triples)
+  points: Float32Array;
+  pointCount: number;
+  // Segment endpoints in hyperplane coordinates, two points per segment
+  segments: Float32Array;
+  segmentCount: number;
+}
+
+const ON_PLANE_EPSILON = 1e-9;
+
+// Shapes without explicit faces (such as the cube served by older backends) get them inferred from the edge graph: every triangle
+// and every chordless 4-cycle is taken to be a face. This is exact for the tesseract
+// and the grid lattices, and a reasonable guess for anything else.
+export function inferFaces(shape: Shape4D): number[][] {
+  const adjacency: Set<number>[] = shape.vertices.map(() => new Set<number>());
+  for (const [a, b] of shape.edges) {
+    adjacency[a].add(b);
+    adjacency[b].add(a);
+  }
+
+  const faces: number[][] = [];
+  for (let a = 0; a < adjacency.length; a++) {
+    const neighbors = [...adjacency[a]].filter(n => n > a).sort((p, q) => p - q);
+    for (let i = 0; i < neighbors.length; i++) {
+      for (let j = i + 1; j < neighbors.length; j++) {
+        const b = neighbors[i];
+        const d = neighbors[j];
+        if (adjacency[b].has(d)) {
+          faces.push([a, b, d]);
+          continue;
+        }
+        // a is the smallest vertex of the cycle and b < d, so every square is found once
+        for (const c of adjacency[b]) {
+          if (c > a && c !== d && adjacency[d].has(c) && !adjacency[a].has(c)) {
+            faces.push([a, b, c, d]);
+          }
+        }
+      }
+    }
+  }
+  return faces;
+}
+
+export function buildSliceTopology(shape: Shape4D): SliceTopology {
+  const edgeIndex = new Map<string, number>();
+  const edgeKey = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+  shape.edges.forEach(([a, b], i) => edgeIndex.set(edgeKey(a, b), i));
+
+  const faceEdges = (shape.faces ?? inferFaces(shape)).map(face =>
+    face
+      .map((v, i) => edgeIndex.get(edgeKey(v, face[(i + 1) % face.length])))
+      .filter((e): e is number => e !== undefined)
+  );
+
+  return { edges: shape.edges, faceEdges };
+}
+
+// Orthonormal basis of the hyperplane, built from the three coordinate axes least aligned
+// with its normal so that slicing at constant w keeps x, y and z in place
+export function hyperplaneBasis(normal: Vector4D): Vector4D[] {
+  const length = Math.hypot(normal.x, normal.y, normal.z, normal.w);
+  const n = Vector4DUtils.scale(normal, 1 / length);
+  const axes: Vector4D[] = [
+    { x: 1, y: 0, z: 0, w: 0 },
+    { x: 0, y: 1, z: 0, w: 0 },
+    { x: 0, y: 0, z: 1, w: 0 },
+    { x: 0, y: 0, z: 0, w: 1 },
+  ];
+  let mostAligned = 0;
+  axes.forEach((axis, i) => {
+    if (Math.abs(Vector4DUtils.dot(axis, n)) > Math.abs(Vector4DUtils.dot(axes[mostAligned], n))) {
+      mostAligned = i;
+    }
+  });
+
+  const basis: Vector4D[] = [];
+  for (const axis of axes.filter((_, i) => i !== mostAligned)) {
+    let v = Vector4DUtils.subtract(axis, Vector4DUtils.scale(n, Vector4DUtils.dot(axis, n)));
+    for (const prev of basis) {
+      v = Vector4DUtils.subtract(v, Vector4DUtils.scale(prev, Vector4DUtils.dot(v, prev)));
+    }
+    basis.push(Vector4DUtils.scale(v, 1 / Math.hypot(v.x, v.y, v.z, v.w)));
+  }
+  return basis;
+}
+
+export function createCrossSection(topology: SliceTopology, vertexCount: number): CrossSection {
+  // Worst case: every edge is cut and every vertex lies on the hyperplane
+  const maxPoints = topology.edges.length + vertexCount;
+  // Every face contributes at most half its edges as segments, plus edges lying in the hyperplane
+  const maxSegments = topology.faceEdges.reduce((sum, f) => sum + Math.floor(f.length / 2), 0) + topology.edges.length;
+  return {
+    points: new Float32Array(maxPoints * 3),
+    pointCount: 0,
+    segments: new Float32Array(maxSegments * 6),
+    segmentCount: 0,
+  };
+}
+
+// Intersect a shape, given by its view-space vertices, with a hyperplane. Each face
+// crossing the hyperplane contributes a segment between the points where its edges
+// cross it; edges lying inside the hyperplane are kept as they are.
+export function sliceShape(
+  vertices: Vector4D[],
+  topology: SliceTopology,
+  plane: Hyperplane4D,
+  basis: Vector4D[],
+  out: CrossSection,
+  scratch: { distances: Float64Array; edgePoint: Int32Array; vertexPoint: Int32Array }
+): CrossSection {
+  const { distances, edgePoint, vertexPoint } = scratch;
+  const [b0, b1, b2] = basis;
+  out.pointCount = 0;
+  out.segmentCount = 0;
+
+  for (let i = 0; i < vertices.length; i++) {
+    distances[i] = Vector4DUtils.dot(vertices[i], plane.normal) - plane.offset;
+    vertexPoint[i] = -1;
+  }
+
+  const pushPoint = (p: Vector4D) => {
+    const k = out.pointCount++;
+    out.points[k * 3] = Vector4DUtils.dot(p, b0);
+    out.points[k * 3 + 1] = Vector4DUtils.dot(p, b1);
+    out.points[k * 3 + 2] = Vector4DUtils.dot(p, b2);
+    return k;
+  };
+
+  const pushSegment = (p: number, q: number) => {
+    const k = out.segmentCount++;
+    out.segments.set(out.points.subarray(p * 3, p * 3 + 3), k * 6);
+    out.segments.set(out.points.subarray(q * 3, q * 3 + 3), k * 6 + 3);
+  };
+
+  const pointAtVertex = (v: number) => {
+    if (vertexPoint[v] < 0) vertexPoint[v] = pushPoint(vertices[v]);
+    return vertexPoint[v];
+  };
+
+  const { edges, faceEdges } = topology;
+  for (let e = 0; e < edges.length; e++) {
+    const [a, b] = edges[e];
+    const da = distances[a];
+    const db = distances[b];
+    edgePoint[e] = -1;
+
+    if (Math.abs(da) < ON_PLANE_EPSILON && Math.abs(db) < ON_PLANE_EPSILON) {
+      // Edge lies in the hyperplane
+      pushSegment(pointAtVertex(a), pointAtVertex(b));
+      continue;
+    }
+
+    // Points on the hyperplane count as being on the positive side, so an edge
+    // only touching it at one end is cut exactly at that vertex
+    if ((da < 0) !== (db < 0)) {
+      if (Math.abs(da) < ON_PLANE_EPSILON) {
+        edgePoint[e] = pointAtVertex(a);
+      } else if (Math.abs(db) < ON_PLANE_EPSILON) {
+        edgePoint[e] = pointAtVertex(b);
+      } else {
+        const t = da / (da - db);
+        const va = vertices[a];
+        const vb = vertices[b];
+        edgePoint[e] = pushPoint({
+          x: va.x + (vb.x - va.x) * t,
+          y: va.y + (vb.y - va.y) * t,
+          z: va.z + (vb.z - va.z) * t,
+          w: va.w + (vb.w - va.w) * t,
+        });
+      }
+    }
+  }
+
+  for (const face of faceEdges) {
+    let pending = -1;
+    for (const e of face) {
+      const p = edgePoint[e];
+      if (p < 0) continue;
+      if (pending < 0) {
+        pending = p;
+      } else {
+        // Faces touching the hyperplane at a single vertex would give a degenerate segment
+        if (p !== pending) pushSegment(pending, p);
+        pending = -1;
+      }
+    }
+  }
+
+  return out;
+}
@@ -0,0 +1,94 @@
+import { Shape4D } from '@/types/4d';
+
+export interface TopologyReport {
+  valid: boolean;
+  errors: string[];
+  // V - E + F - C, counting only the element kinds the shape defines
+  eulerCharacteristic: number;
+}
+
+const edgeKey = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+
+// Boundary edges of a face, as keys into the edge set
+export function faceEdgeKeys(face: number[]): string[] {
+  return face.map((v, i) => edgeKey(v, face[(i + 1) % face.length]));
+}
+
+// Check that edges, faces and cells reference each other consistently. Pass the Euler
+// characteristic the shape should have to check it too: 0 for the boundary of a convex
+// 4-polytope, 1 for a disk-like grid or a solid lattice.
+export function validateTopology(shape: Shape4D, options?: { expectedEuler?: number }): TopologyReport {
+  const errors: string[] = [];
+  const vertexCount = shape.vertices.length;
+  const faces = shape.faces ?? [];
+  const cells = shape.cells ?? [];
+
+  const edgeSet = new Set<string>();
+  shape.edges.forEach((edge, e) => {
+    const [a, b] = edge;
+    if (edge.length !== 2 || ![a, b].every(v => Number.isInteger(v) && v >= 0 && v < vertexCount)) {
+      errors.push(`Edge ${e} references vertices outside 0..${vertexCount - 1}`);
+      return;
+    }
+    if (a === b) {
+      errors.push(`Edge ${e} connects vertex ${a} to itself`);
+      return;
+    }
+    const key = edgeKey(a, b);
+    if (edgeSet.has(key)) {
+      errors.push(`Edge ${e} duplicates edge ${key}`);
+    }
+    edgeSet.add(key);
+  });
+
+  faces.forEach((face, f) => {
+    if (face.length < 3) {
+      errors.push(`Face ${f} has only ${face.length} vertices`);
+      return;
+    }
+    if (new Set(face).size !== face.length) {
+      errors.push(`Face ${f} repeats a vertex`);
+    }
+    for (const key of faceEdgeKeys(face)) {
+      if (!edgeSet.has(key)) {
+        errors.push(`Face ${f} uses ${key}, which is not an edge`);
+      }
+    }
+  });
+
+  const cellsPerFace = new Array<number>(faces.length).fill(0);
+  cells.forEach((cell, c) => {
+    if (!cell.every(f => Number.isInteger(f) && f >= 0 && f < faces.length)) {
+      errors.push(`Cell ${c} references faces outside 0..${faces.length - 1}`);
+      return;
+    }
+    // A closed cell uses every edge of its faces exactly twice
+    const edgeUses = new Map<string, number>();
+    for (const f of cell) {
+      cellsPerFace[f]++;
+      for (const key of faceEdgeKeys(faces[f])) {
+        edgeUses.set(key, (edgeUses.get(key) ?? 0) + 1);
+      }
+    }
+    const openEdges = [...edgeUses].filter(([, uses]) => uses !== 2).map(([key]) => key);
+    if (openEdges.length > 0) {
+      errors.push(`Cell ${c} is not closed at edges ${openEdges.slice(0, 5).join(', ')}`);
+    }
+  });
+
+  cellsPerFace.forEach((count, f) => {
+    if (count > 2) {
+      errors.push(`Face ${f} is shared by ${count} cells`);
+    }
+  });
+
+  let eulerCharacteristic = vertexCount - shape.edges.length;
+  if (shape.faces) eulerCharacteristic += faces.length;
+  if (shape.cells) eulerCharacteristic -= cells.length;
+
+  if (options?.expectedEuler !== undefined && eulerCharacteristic !== options.expectedEuler) {
+    errors.push(`Euler characteristic is ${eulerCharacteristic}, expected ${options.expectedEuler}`);
+  }
+
+  return { valid: errors.length === 0, errors, eulerCharacteristic };
+}
@@ -0,0 +1,107 @@
+import {
+  Axis4D,
+  Camera4D,
+  NavigationMode,
+  Orientation4DUtils,
+  PlaneAngles4D,
+  ProjectionMode,
+  ProjectionSettings,
+  ROTATION_PLANES,
+  Transform4D
+} from '@/types/4d';
+import { AXES_4D, PROJECTIONS } from '@/math/projection';
+
+// The parts of the current view that a link restores. Orientations are stored as their six
+// plane angles, which fromAngles turns back into the same matrix.
+export interface ViewLink {
+  navigation: NavigationMode;
+  transform: Transform4D;
+  camera: Camera4D;
+  projection: ProjectionSettings;
+  // Ids of the visible scene shapes
+  visible: string[];
+}
+
+// Decimals kept for every number, which is well below what can be seen
+const PRECISION = 4;
+
+const ANGLE_KEYS = ROTATION_PLANES.map(plane => `rotation_${plane}` as keyof PlaneAngles4D);
+
+const formatNumber = (value: number) => String(Number(value.toFixed(PRECISION)));
+
+function parseNumbers(text: string | null, count: number): number[] | null {
+  if (text === null) return null;
+  const values = text.split(',').map(Number);
+  return values.length === count && values.every(Number.isFinite) ? values : null;
+}
+
+// Six plane angles followed by the four translation components
+function encodeTransform(transform: Transform4D): string {
+  const angles = Orientation4DUtils.toAngles(transform.orientation);
+  const { x, y, z, w } = transform.translation;
+  return [...ANGLE_KEYS.map(key => angles[key]), x, y, z, w].map(formatNumber).join(',');
+}
+
+function decodeTransform(values: number[]): Transform4D {
+  const angles = Object.fromEntries(ANGLE_KEYS.map((key, i) => [key, values[i]])) as unknown as PlaneAngles4D;
+  const [x, y, z, w] = values.slice(6);
+  return { orientation: Orientation4DUtils.fromAngles(angles), translation: { x, y, z, w } };
+}
+
+// Encodes the view as URL hash parameters, e.g. "nav=camera&t=...&cam=...&p=...&show=..."
+export function encodeViewLink(link: ViewLink): string {
+  const p = link.projection;
+  const d = p.obliqueDirection;
+  const params = {
+    nav: link.navigation,
+    t: encodeTransform(link.transform),
+    cam: `${encodeTransform({ orientation: link.camera.orientation, translation: link.camera.position })},${formatNumber(link.camera.fov)}`,
+    p: [p.mode, ...[p.distance, p.nearClip, p.scale, d.x, d.y, d.z, p.obliqueFactor].map(formatNumber), p.droppedAxis].join(','),
+    show: link.visible.join(','),
+  };
+  // Commas are left readable, they need no escaping in a URL fragment
+  return Object.entries(params)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value).replace(/%2C/g, ',')}`)
+    .join('&');
+}
+
+// Reads whatever parts of a link are present and well formed; the others are left out
+export function decodeViewLink(hash: string): Partial<ViewLink> {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const result: Partial<ViewLink> = {};
+
+  const navigation = params.get('nav');
+  if (navigation === 'camera' || navigation === 'object') result.navigation = navigation;
+
+  const transform = parseNumbers(params.get('t'), 10);
+  if (transform) result.transform = decodeTransform(transform);
+
+  const camera = parseNumbers(params.get('cam'), 11);
+  if (camera && camera[10] > 0 && camera[10] < 180) {
+    const { orientation, translation } = decodeTransform(camera);
+    result.camera = { position: translation, orientation, fov: camera[10] };
+  }
+
+  const projection = params.get('p')?.split(',');
+  if (projection?.length === 9) {
+    const [mode, droppedAxis] = [projection[0], projection[8]];
+    const numbers = parseNumbers(projection.slice(1, 8).join(','), 7);
+    if (numbers && mode in PROJECTIONS && AXES_4D.includes(droppedAxis as Axis4D)) {
+      const [distance, nearClip, scale, x, y, z, obliqueFactor] = numbers;
+      result.projection = {
+        mode: mode as ProjectionMode,
+        distance,
+        nearClip,
+        scale,
+        obliqueDirection: { x, y, z },
+        obliqueFactor,
+        droppedAxis: droppedAxis as Axis4D,
+      };
+    }
+  }
+
+  const show = params.get('show');
+  if (show !== null) result.visible = show ? show.split(',') : [];
+
+  return result;
+}
@@ -0,0 +1,15 @@
+import { create } from 'zustand';
+import { DepthCueSettings } from '@/types/4d';
+import { DEFAULT_DEPTH_CUE_SETTINGS } from '@/math/depthCue';
+
+interface DepthCueState {
+  settings: DepthCueSettings;
+  updateSettings: (changes: Partial<DepthCueSettings>) => void;
+}
+
+export const useDepthCueStore = create<DepthCueState>((set, get) => ({
+  settings: DEFAULT_DEPTH_CUE_SETTINGS,
+  updateSettings: (changes) => {
+    set({ settings: { ...get().settings, ...changes } });
+  },
+}));
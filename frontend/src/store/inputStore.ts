@@ -0,0 +1,136 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { ROTATION_PLANES } from '@/types/4d';
+import { DEFAULT_MOTION_SETTINGS, MotionAxis, MotionSettings } from '@/math/motion';
+import { DEFAULT_GAMEPAD_SETTINGS, GamepadSettings } from '@/math/gamepad';
+import { PointerMode } from '@/math/arcball';
+
+export interface InputAction {
+  id: string;
+  label: string;
+  // The axis the action pushes along and in which direction; the speed modifier has none
+  axis?: MotionAxis;
+  direction?: 1 | -1;
+}
+
+export const SPEED_MODIFIER = 'speedModifier';
+
+export const INPUT_ACTIONS: InputAction[] = [
+  { id: 'moveLeft', label: 'Move −X', axis: 'x', direction: -1 },
+  { id: 'moveRight', label: 'Move +X', axis: 'x', direction: 1 },
+  { id: 'moveUp', label: 'Move +Y', axis: 'y', direction: 1 },
+  { id: 'moveDown', label: 'Move −Y', axis: 'y', direction: -1 },
+  { id: 'moveForward', label: 'Move −Z', axis: 'z', direction: -1 },
+  { id: 'moveBack', label: 'Move +Z', axis: 'z', direction: 1 },
+  { id: 'moveDeeper', label: 'Move +W', axis: 'w', direction: 1 },
+  { id: 'moveShallower', label: 'Move −W', axis: 'w', direction: -1 },
+  ...ROTATION_PLANES.flatMap(plane => [
+    { id: `rotate${plane.toUpperCase()}Plus`, label: `Rotate ${plane.toUpperCase()} +`, axis: plane, direction: 1 as const },
+    { id: `rotate${plane.toUpperCase()}Minus`, label: `Rotate ${plane.toUpperCase()} −`, axis: plane, direction: -1 as const },
+  ]),
+  { id: SPEED_MODIFIER, label: 'Speed modifier (hold)' },
+];
+
+// Bindings use KeyboardEvent.code, the physical key, so they sit in the same place on
+// every keyboard layout
+export type KeyBindings = Record<string, string[]>;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  moveLeft: ['KeyA', 'ArrowLeft'],
+  moveRight: ['KeyD', 'ArrowRight'],
+  moveUp: ['KeyQ'],
+  moveDown: ['KeyE'],
+  moveForward: ['KeyW', 'ArrowUp'],
+  moveBack: ['KeyS', 'ArrowDown'],
+  moveDeeper: ['KeyZ'],
+  moveShallower: ['KeyX'],
+  rotateXYPlus: ['KeyI'],
+  rotateXYMinus: ['KeyK'],
+  rotateXZPlus: ['KeyJ'],
+  rotateXZMinus: ['KeyL'],
+  rotateXWPlus: ['KeyU'],
+  rotateXWMinus: ['KeyO'],
+  rotateYZPlus: ['Digit7'],
+  rotateYZMinus: ['Digit8'],
+  rotateYWPlus: ['Digit9'],
+  rotateYWMinus: ['Digit0'],
+  rotateZWPlus: ['Semicolon'],
+  rotateZWMinus: ['Quote'],
+  [SPEED_MODIFIER]: ['ShiftLeft', 'ShiftRight'],
+};
+
+// Short name of a key code for the UI, e.g. "KeyW" -> "W", "ArrowUp" -> "↑"
+export function keyLabel(code: string): string {
+  const arrows: Record<string, string> = { ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' };
+  const symbols: Record<string, string> = {
+    Semicolon: ';', Quote: '\'', Comma: ',', Period: '.', Slash: '/', Backslash: '\\',
+    BracketLeft: '[', BracketRight: ']', Minus: '-', Equal: '=', Backquote: '`',
+  };
+  return arrows[code] ?? symbols[code] ?? code.replace(/^(Key|Digit)/, '').replace(/(Left|Right)$/, ' $1');
+}
+
+interface InputState {
+  bindings: KeyBindings;
+  settings: MotionSettings;
+  gamepad: GamepadSettings;
+  // Whether dragging the view orbits the 3D camera or turns the scene in 4D
+  pointerMode: PointerMode;
+  // Id of the DRAG_PLANE_OPTIONS entry a plain 4D drag turns in
+  dragPlanes: string;
+  // Binds the key to the action, taking it away from any other action
+  bind: (action: string, code: string) => void;
+  unbind: (action: string, code: string) => void;
+  updateSettings: (changes: Partial<MotionSettings>) => void;
+  updateGamepad: (changes: Partial<GamepadSettings>) => void;
+  setPointerMode: (pointerMode: PointerMode) => void;
+  setDragPlanes: (dragPlanes: string) => void;
+  // Restores the default bindings and all settings
+  resetDefaults: () => void;
+}
+
+// Bindings and settings, including the gamepad's, are kept in localStorage. The store is hydrated from it by
+// KeyboardControls after mounting, so the server render and the first client render agree.
+export const useInputStore = create<InputState>()(persist((set, get) => ({
+  bindings: DEFAULT_KEY_BINDINGS,
+  settings: DEFAULT_MOTION_SETTINGS,
+  gamepad: DEFAULT_GAMEPAD_SETTINGS,
+  pointerMode: 'orbit',
+  dragPlanes: 'screen',
+  bind: (action, code) => {
+    const bindings = Object.fromEntries(
+      Object.entries(get().bindings).map(([id, codes]) => [id, codes.filter(other => other !== code)])
+    );
+    bindings[action] = [...(bindings[action] ?? []), code];
+    set({ bindings });
+  },
+  unbind: (action, code) => set({
+    bindings: { ...get().bindings, [action]: (get().bindings[action] ?? []).filter(other => other !== code) },
+  }),
+  updateSettings: (changes) => set({ settings: { ...get().settings, ...changes } }),
+  updateGamepad: (changes) => set({ gamepad: { ...get().gamepad, ...changes } }),
+  setPointerMode: (pointerMode) => set({ pointerMode }),
+  setDragPlanes: (dragPlanes) => set({ dragPlanes }),
+  resetDefaults: () => set({ bindings: DEFAULT_KEY_BINDINGS, settings: DEFAULT_MOTION_SETTINGS, gamepad: DEFAULT_GAMEPAD_SETTINGS }),
+}), {
+  name: 'cztery-de-input',
+  version: 1,
+  skipHydration: true,
+  partialize: (state) => ({
+    bindings: state.bindings,
+    settings: state.settings,
+    gamepad: state.gamepad,
+    pointerMode: state.pointerMode,
+    dragPlanes: state.dragPlanes,
+  }),
+  // Actions and settings added since the state was saved keep their defaults
+  merge: (persisted, current) => {
+    const saved = (persisted ?? {}) as Partial<InputState>;
+    return {
+      ...current,
+      ...saved,
+      bindings: { ...current.bindings, ...saved.bindings },
+      settings: { ...current.settings, ...saved.settings },
+      gamepad: { ...current.gamepad, ...saved.gamepad },
+    };
+  },
+}));
@@ -0,0 +1,52 @@
+import { create } from 'zustand';
+import { MEASUREMENT_VERTEX_COUNT, Measurement, VertexRef } from '@/math/measurement';
+
+interface MeasurementState {
+  // Tool collecting vertices for a new measurement, if any
+  tool: Measurement['kind'] | null;
+  pending: VertexRef[];
+  measurements: Measurement[];
+  setTool: (tool: Measurement['kind'] | null) => void;
+  // Adds a vertex to the pending measurement, which is stored once it has enough vertices
+  addVertex: (vertex: VertexRef) => void;
+  remove: (id: number) => void;
+  clear: () => void;
+  // Drops measurements and pending vertices on shapes whose scene entries no longer exist
+  forgetRemoved: (entryIds: Set<string>) => void;
+}
+
+let nextMeasurementId = 1;
+
+export const useMeasurementStore = create<MeasurementState>((set, get) => ({
+  tool: null,
+  pending: [],
+  measurements: [],
+  setTool: (tool) => set({ tool, pending: [] }),
+  addVertex: (vertex) => {
+    const { tool, pending, measurements } = get();
+    if (!tool) return;
+    const last = pending[pending.length - 1];
+    if (last && last.shapeId === vertex.shapeId && last.index === vertex.index) return;
+
+    const vertices = [...pending, vertex];
+    if (vertices.length < MEASUREMENT_VERTEX_COUNT[tool]) {
+      set({ pending: vertices });
+      return;
+    }
+    set({
+      pending: [],
+      measurements: [...measurements, { id: nextMeasurementId++, kind: tool, vertices }],
+    });
+  },
+  remove: (id) => set({ measurements: get().measurements.filter(m => m.id !== id) }),
+  clear: () => set({ measurements: [], pending: [] }),
+  forgetRemoved: (entryIds) => {
+    const { pending, measurements } = get();
+    const exists = (ref: VertexRef) => entryIds.has(ref.shapeId);
+    if (pending.every(exists) && measurements.every(m => m.vertices.every(exists))) return;
+    set({
+      pending: pending.filter(exists),
+      measurements: measurements.filter(m => m.vertices.every(exists)),
+    });
+  },
+}));
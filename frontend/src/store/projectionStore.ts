@@ -0,0 +1,15 @@
+import { create } from 'zustand';
+import { ProjectionSettings } from '@/types/4d';
+import { DEFAULT_PROJECTION_SETTINGS } from '@/math/projection';
+
+interface ProjectionState {
+  settings: ProjectionSettings;
+  updateSettings: (changes: Partial<ProjectionSettings>) => void;
+}
+
+export const useProjectionStore = create<ProjectionState>((set, get) => ({
+  settings: DEFAULT_PROJECTION_SETTINGS,
+  updateSettings: (changes) => {
+    set({ settings: { ...get().settings, ...changes } });
+  },
+}));
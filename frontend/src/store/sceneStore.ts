@@ -0,0 +1,167 @@
+import { create } from 'zustand';
+import { Shape4D, Transform4D, Transform4DUtils } from '@/types/4d';
+import { ShapeParams, buildShape, defaultParams, findGenerator } from '@/shapes/generators';
+
+// A named shape in the scene, built by one of SHAPE_GENERATORS
+export interface SceneEntry {
+  id: string;
+  label: string;
+  color: string;
+  visible: boolean;
+  affectedByGlobalTransform: boolean;
+  // Whether W depth colouring applies to this shape when it is enabled
+  depthCue: boolean;
+  // Placement relative to the parent entry, or to the world for root entries
+  transform: Transform4D;
+  parentId: string | null;
+  // Null for shapes with inline geometry, which have no parameters
+  generator: string | null;
+  params: ShapeParams;
+  // Built from the generator and its parameters
+  shape: Shape4D;
+}
+
+// Everything is optional when adding an entry except a generator or a `shape`. A prebuilt
+// shape (such as the tesseract fetched from the backend) is used instead of generating one,
+// and is the whole geometry of entries without a generator. Entries loaded from a file keep
+// their `id`, which new ids never collide with.
+export type NewSceneEntry = Partial<Omit<SceneEntry, 'params'>> & {
+  params?: Partial<ShapeParams>;
+} & ({ generator: string } | { shape: Shape4D });
+
+export type SceneEntryChanges = Partial<Pick<SceneEntry, 'label' | 'color' | 'visible' | 'affectedByGlobalTransform' | 'depthCue' | 'transform'>>;
+
+interface SceneState {
+  entries: SceneEntry[];
+  // Replaces the whole scene
+  reset: (entries: NewSceneEntry[]) => void;
+  // Adds an entry and returns its id
+  add: (entry: NewSceneEntry) => string;
+  remove: (id: string) => void;
+  duplicate: (id: string) => void;
+  update: (id: string, changes: SceneEntryChanges) => void;
+  // Attaches an entry to another one, or detaches it with null. Ignored when it would
+  // create a cycle. The local transform is kept, so the entry moves with its new parent.
+  setParent: (id: string, parentId: string | null) => void;
+  // Rebuilds the shape of an entry with new generator parameters
+  setParams: (id: string, params: ShapeParams) => void;
+}
+
+let nextEntryId = 1;
+
+function entryId(requested?: string): string {
+  if (!requested) return `shape-${nextEntryId++}`;
+  const numbered = /^shape-(\d+)$/.exec(requested);
+  if (numbered) nextEntryId = Math.max(nextEntryId, parseInt(numbered[1]) + 1);
+  return requested;
+}
+
+function createEntry(entry: NewSceneEntry): SceneEntry {
+  const generator = entry.generator ? findGenerator(entry.generator) : undefined;
+  if (entry.generator && !generator) throw new Error(`Unknown shape generator: ${entry.generator}`);
+  const params = (generator ? { ...defaultParams(generator), ...entry.params } : {}) as ShapeParams;
+  const shape = entry.shape ?? buildShape(generator!, params);
+  return {
+    id: entryId(entry.id),
+    label: entry.label ?? generator?.label ?? shape.name ?? 'Shape',
+    color: entry.color ?? shape.color ?? '#ffffff',
+    visible: entry.visible ?? true,
+    affectedByGlobalTransform: entry.affectedByGlobalTransform ?? shape.affectedByGlobalTransform !== false,
+    depthCue: entry.depthCue ?? true,
+    transform: entry.transform ?? Transform4DUtils.identity(),
+    parentId: entry.parentId ?? null,
+    generator: generator?.id ?? null,
+    params,
+    shape,
+  };
+}
+
+// Whether `id` is `ancestorId` or one of its descendants
+export function isDescendant(entries: SceneEntry[], id: string, ancestorId: string): boolean {
+  const byId = new Map(entries.map(entry => [entry.id, entry]));
+  for (let current = byId.get(id); current; current = current.parentId ? byId.get(current.parentId) : undefined) {
+    if (current.id === ancestorId) return true;
+  }
+  return false;
+}
+
+// World transform of every entry: its local transform composed with its ancestors'
+export function worldTransforms(entries: SceneEntry[]): Map<string, Transform4D> {
+  const byId = new Map(entries.map(entry => [entry.id, entry]));
+  const result = new Map<string, Transform4D>();
+  const resolve = (entry: SceneEntry): Transform4D => {
+    let world = result.get(entry.id);
+    if (!world) {
+      const parent = entry.parentId ? byId.get(entry.parentId) : undefined;
+      world = parent ? Transform4DUtils.compose(resolve(parent), entry.transform) : entry.transform;
+      result.set(entry.id, world);
+    }
+    return world;
+  };
+  entries.forEach(resolve);
+  return result;
+}
+
+// Shapes of the visible entries, with the entry's properties and world transform applied,
+// in scene order
+export function sceneShapes(entries: SceneEntry[]): Shape4D[] {
+  const world = worldTransforms(entries);
+  return entries.filter(entry => entry.visible).map(entry => ({
+    ...entry.shape,
+    id: entry.id,
+    name: entry.label,
+    color: entry.color,
+    transform: world.get(entry.id),
+    affectedByGlobalTransform: entry.affectedByGlobalTransform,
+    depthCue: entry.depthCue,
+  }));
+}
+
+export const useSceneStore = create<SceneState>((set, get) => ({
+  entries: [],
+  reset: (entries) => {
+    // Numbering restarts so the same scene always gets the same ids, which links refer to
+    nextEntryId = 1;
+    set({ entries: entries.map(createEntry) });
+  },
+  add: (entry) => {
+    const created = createEntry(entry);
+    set({ entries: [...get().entries, created] });
+    return created.id;
+  },
+  // Children of a removed entry move up to its parent and keep their place in the world
+  remove: (id) => {
+    const removed = get().entries.find(entry => entry.id === id);
+    if (!removed) return;
+    set({
+      entries: get().entries.filter(entry => entry.id !== id).map(entry => entry.parentId === id ? {
+        ...entry,
+        parentId: removed.parentId,
+        transform: Transform4DUtils.compose(removed.transform, entry.transform),
+      } : entry),
+    });
+  },
+  duplicate: (id) => {
+    const entries = get().entries;
+    const index = entries.findIndex(entry => entry.id === id);
+    if (index < 0) return;
+    const source = entries[index];
+    const copy = createEntry({ ...source, id: undefined, label: `${source.label} copy` });
+    set({ entries: [...entries.slice(0, index + 1), copy, ...entries.slice(index + 1)] });
+  },
+  update: (id, changes) => set({
+    entries: get().entries.map(entry => entry.id === id ? { ...entry, ...changes } : entry),
+  }),
+  setParent: (id, parentId) => {
+    const entries = get().entries;
+    if (parentId !== null && isDescendant(entries, parentId, id)) return;
+    set({ entries: entries.map(entry => entry.id === id ? { ...entry, parentId } : entry) });
+  },
+  setParams: (id, params) => set({
+    entries: get().entries.map(entry => {
+      const generator = entry.generator ? findGenerator(entry.generator) : undefined;
+      if (entry.id !== id || !generator) return entry;
+      return { ...entry, params, shape: buildShape(generator, params) };
+    }),
+  }),
+}));
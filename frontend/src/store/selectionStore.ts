@@ -0,0 +1,39 @@
+import { create } from 'zustand';
+import { PickTarget, samePickTarget } from '@/math/picking';
+
+interface SelectionState {
+  hovered: PickTarget | null;
+  selected: PickTarget | null;
+  setHovered: (target: PickTarget | null) => void;
+  setSelected: (target: PickTarget | null) => void;
+  // Number of clicks in the scene that picked something, counting repeated clicks on the
+  // selected element, which leave `selected` unchanged
+  pickCount: number;
+  // Selects what a click in the scene picked
+  pick: (target: PickTarget | null) => void;
+  // Clears picks of shapes whose scene entries no longer exist
+  forgetRemoved: (entryIds: Set<string>) => void;
+}
+
+export const useSelectionStore = create<SelectionState>((set, get) => ({
+  hovered: null,
+  selected: null,
+  pickCount: 0,
+  // Picking runs every frame, so only actual changes are stored
+  setHovered: (target) => {
+    if (!samePickTarget(get().hovered, target)) set({ hovered: target });
+  },
+  setSelected: (target) => {
+    if (!samePickTarget(get().selected, target)) set({ selected: target });
+  },
+  // One update, so subscribers see the selection and the count change together
+  pick: (target) => {
+    const { selected, pickCount } = get();
+    set({ selected: samePickTarget(selected, target) ? selected : target, pickCount: target ? pickCount + 1 : pickCount });
+  },
+  forgetRemoved: (entryIds) => {
+    const { hovered, selected } = get();
+    if (hovered && !entryIds.has(hovered.shapeId)) set({ hovered: null });
+    if (selected && !entryIds.has(selected.shapeId)) set({ selected: null });
+  },
+}));
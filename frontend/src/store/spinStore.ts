@@ -0,0 +1,23 @@
+import { create } from 'zustand';
+import { RotationPlane4D } from '@/types/4d';
+import { Bivector4D, ZERO_BIVECTOR } from '@/math/rotation';
+
+interface SpinState {
+  // Angular velocity of the object transform, in radians per second
+  velocity: Bivector4D;
+  running: boolean;
+  setRate: (plane: RotationPlane4D, rate: number) => void;
+  // Replaces the whole velocity and starts spinning
+  setVelocity: (velocity: Bivector4D) => void;
+  setRunning: (running: boolean) => void;
+  stop: () => void;
+}
+
+export const useSpinStore = create<SpinState>((set, get) => ({
+  velocity: ZERO_BIVECTOR,
+  running: true,
+  setRate: (plane, rate) => set({ velocity: { ...get().velocity, [plane]: rate } }),
+  setVelocity: (velocity) => set({ velocity, running: true }),
+  setRunning: (running) => set({ running }),
+  stop: () => set({ velocity: ZERO_BIVECTOR }),
+}));
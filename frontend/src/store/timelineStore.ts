@@ -0,0 +1,53 @@
+import { create } from 'zustand';
+import { Easing, Keyframe, ViewPose } from '@/math/animation';
+
+// Keyframes captured at the same time as an existing one replace it
+const SAME_TIME = 1e-3;
+
+interface TimelineState {
+  // Sorted by time
+  keyframes: Keyframe[];
+  // Playhead, in seconds
+  time: number;
+  // Length of the scrub bar, in seconds
+  duration: number;
+  playing: boolean;
+  loop: boolean;
+  // Records the pose as a keyframe at the playhead
+  capture: (pose: ViewPose) => void;
+  updateKeyframe: (id: number, changes: Partial<Pick<Keyframe, 'time' | 'easing'> & ViewPose>) => void;
+  remove: (id: number) => void;
+  clear: () => void;
+  setTime: (time: number) => void;
+  setDuration: (duration: number) => void;
+  setPlaying: (playing: boolean) => void;
+  setLoop: (loop: boolean) => void;
+}
+
+let nextKeyframeId = 1;
+
+const byTime = (keyframes: Keyframe[]) => [...keyframes].sort((a, b) => a.time - b.time);
+
+export const useTimelineStore = create<TimelineState>((set, get) => ({
+  keyframes: [],
+  time: 0,
+  duration: 10,
+  playing: false,
+  loop: false,
+  capture: (pose) => {
+    const { keyframes, time } = get();
+    const existing = keyframes.find(keyframe => Math.abs(keyframe.time - time) < SAME_TIME);
+    const easing: Easing = existing?.easing ?? 'easeInOut';
+    const keyframe = { ...pose, id: existing?.id ?? nextKeyframeId++, time, easing };
+    set({ keyframes: byTime([...keyframes.filter(other => other !== existing), keyframe]) });
+  },
+  updateKeyframe: (id, changes) => set({
+    keyframes: byTime(get().keyframes.map(keyframe => (keyframe.id === id ? { ...keyframe, ...changes } : keyframe))),
+  }),
+  remove: (id) => set({ keyframes: get().keyframes.filter(keyframe => keyframe.id !== id) }),
+  clear: () => set({ keyframes: [], playing: false }),
+  setTime: (time) => set({ time }),
+  setDuration: (duration) => set({ duration, time: Math.min(get().time, duration) }),
+  setPlaying: (playing) => set({ playing }),
+  setLoop: (loop) => set({ loop }),
+}));
@@ -1,29 +1,66 @@
 import { create } from 'zustand';
-import { Transform4D, Vector4D } from '@/types/4d';
+import { useShallow } from 'zustand/react/shallow';
+import { Camera4D, NavigationMode, Orientation4D, Orientation4DUtils, Transform4D, Vector4D, Vector4DUtils, ViewTransforms } from '@/types/4d';
+import { DEFAULT_CAMERA, cameraViewTransform, navigateCamera } from '@/math/camera';
 
 const initialTransform: Transform4D = {
-  rotation_xy: 0,
-  rotation_xz: 0,
-  rotation_xw: 0,
-  rotation_yz: 0,
-  rotation_yw: 0,
-  rotation_zw: 0,
+  orientation: Orientation4DUtils.identity(),
   translation: { x: 0, y: 0, z: 0, w: 0 },
 };
 
-interface TransformState {
-  transform: Transform4D;
+// Incremental rotations accumulate floating point error, so the orientation is
+// re-orthonormalized after this many updates
+const ORTHONORMALIZE_INTERVAL = 120;
+
+interface TransformState extends ViewTransforms {
+  camera: Camera4D;
+  navigation: NavigationMode;
   // This function allows direct mutation for performance within the animation loop
   updateTransform: (updateFn: (transform: Transform4D) => void) => void;
+  updateCamera: (changes: Partial<Camera4D>) => void;
+  setNavigation: (navigation: NavigationMode) => void;
+  // Shifts the scene by `delta` and turns it by `rotation` in view space, by moving the
+  // camera or the object transform depending on the navigation mode
+  navigate: (delta: Vector4D, rotation: Orientation4D) => void;
 }
 
+let updatesSinceOrthonormalize = 0;
+
+// Orthonormalizes every ORTHONORMALIZE_INTERVAL calls
+const maybeOrthonormalize = (orientation: Orientation4D) => {
+  if (++updatesSinceOrthonormalize < ORTHONORMALIZE_INTERVAL) return orientation;
+  updatesSinceOrthonormalize = 0;
+  return Orientation4DUtils.orthonormalize(orientation);
+};
+
 export const useTransformStore = create<TransformState>((set, get) => ({
   transform: initialTransform,
+  camera: DEFAULT_CAMERA,
+  view: cameraViewTransform(DEFAULT_CAMERA),
+  navigation: 'camera',
   updateTransform: (updateFn) => {
     const newTransform = { ...get().transform };
     updateFn(newTransform);
+    newTransform.orientation = maybeOrthonormalize(newTransform.orientation);
     set({ transform: newTransform });
   },
+  updateCamera: (changes) => {
+    const camera = { ...get().camera, ...changes };
+    set({ camera, view: cameraViewTransform(camera) });
+  },
+  setNavigation: (navigation) => set({ navigation }),
+  navigate: (delta, rotation) => {
+    const { navigation, camera, updateTransform, updateCamera } = get();
+    if (navigation === 'object') {
+      updateTransform(transform => {
+        transform.translation = Vector4DUtils.add(transform.translation, delta);
+        transform.orientation = Vector4DUtils.matrixMultiplyMatrix(rotation, transform.orientation);
+      });
+      return;
+    }
+    const next = navigateCamera(camera, delta, rotation);
+    updateCamera({ position: next.position, orientation: maybeOrthonormalize(next.orientation) });
+  },
 }));
 
 // A hook for the UI to subscribe to changes.
@@ -32,3 +69,13 @@ export const useTransformForUI = () => {
   const transform = useTransformStore((state) => state.transform);
   return transform;
 };
+
+// The object transform and camera view together, for UI that maps shapes to view space
+export const useViewTransformsForUI = (): ViewTransforms =>
+  useTransformStore(useShallow((state) => ({ transform: state.transform, view: state.view })));
+
+// Legacy six-angle view of the current orientation, for the HUD
+export const useOrientationAnglesForUI = () => {
+  const orientation = useTransformStore((state) => state.transform.orientation);
+  return Orientation4DUtils.toAngles(orientation);
+};
@@ -1,5 +1,7 @@
 // 4D Visualization Types
 
+import { Mat4Buffer } from '@/math/buffer4d';
+
 export interface Vector4D {
   x: number;
   y: number;
@@ -10,28 +12,117 @@ export interface Vector4D {
 export interface Shape4D {
   vertices: Vector4D[];
   edges: number[][]; // Pairs of vertex indices
+  // Polygons as ordered loops of vertex indices
+  faces?: number[][];
+  // 3D facets as lists of face indices
+  cells?: number[][];
   position: Vector4D;
+  // World placement, applied after `position` and before the global transform. For scene
+  // shapes this is composed down the hierarchy from each entry's local transform.
+  transform?: Transform4D;
   // If true or undefined, global transforms apply. If false, shape stays static.
   affectedByGlobalTransform?: boolean;
+  // Id of the scene entry the shape comes from, which picks and measurements refer to
+  id?: string;
+  // Display name, e.g. in the inspector
+  name?: string;
   // Color for rendering (hex string)
   color?: string;
+  // If false, the shape keeps its flat colour when W depth colouring is enabled
+  depthCue?: boolean;
+  // Set by generators whose vertices form a regular lattice, which enables level of detail
+  lattice?: LatticeInfo;
 }
 
-export interface Transform4D {
+// Cell counts along X, Z and W of a lattice whose vertex (ix, iz, iw) has index
+// (iw * (nz + 1) + iz) * (nx + 1) + ix. Flat grids have nw = 0.
+export interface LatticeInfo {
+  divisions: [number, number, number];
+}
+
+export interface LodSettings {
+  enabled: boolean;
+  baseDistance: number; // Beyond this distance lattices are drawn at half resolution, doubling per level
+  hysteresis: number;   // Fraction of a level boundary to overshoot before switching
+}
+
+// The six planes a 4D rotation can act in
+export type RotationPlane4D = 'xy' | 'xz' | 'xw' | 'yz' | 'yw' | 'zw';
+
+export const ROTATION_PLANES: RotationPlane4D[] = ['xy', 'xz', 'xw', 'yz', 'yw', 'zw'];
+
+// Orthonormal 4x4 rotation matrix (row-major), applied as p' = M * p
+export type Orientation4D = number[][];
+
+// Legacy six-angle representation, composed in the fixed XY -> XZ -> XW -> YZ -> YW -> ZW order.
+// Only used for display and interop; the source of truth is Transform4D.orientation.
+export interface PlaneAngles4D {
   rotation_xy: number;
   rotation_xz: number;
   rotation_xw: number;
   rotation_yz: number;
   rotation_yw: number;
   rotation_zw: number;
+}
+
+export interface Transform4D {
+  orientation: Orientation4D;
   translation: Vector4D;
 }
 
+// 4D camera. The columns of `orientation` are the camera's X, Y, Z and W axes in world space;
+// it looks along its -W axis, and `fov` (degrees) sets the focal distance of the perspective.
+export interface Camera4D {
+  position: Vector4D;
+  orientation: Orientation4D;
+  fov: number;
+}
+
+// What navigation drives: the camera through the scene, or the object transform of the
+// shapes that follow navigation while the viewer stays put
+export type NavigationMode = 'camera' | 'object';
+
+// Transforms taking shapes to view space: `transform` for shapes that follow navigation,
+// then `view`, the camera's world-to-view transform, for every shape
+export interface ViewTransforms {
+  transform: Transform4D;
+  view: Transform4D;
+}
+
+export type ProjectionMode = 'perspective' | 'orthographic' | 'stereographic' | 'oblique' | 'axisDrop';
+
+export type Axis4D = 'x' | 'y' | 'z' | 'w';
+
 export interface ProjectionSettings {
+  mode: ProjectionMode;
   distance: number; // Distance from projection plane
+  nearClip: number; // Distance in front of the 4D eye where geometry is clipped
   scale: number;
+  obliqueDirection: { x: number; y: number; z: number }; // 3D direction the W axis is drawn along
+  obliqueFactor: number; // Foreshortening of W along that direction (0.5 cabinet, 1 cavalier)
+  droppedAxis: Axis4D; // Axis discarded by the axis-drop projection; the other three are kept in order
 }
 
+// Colouring of edges and vertices by their view-space W coordinate
+export interface DepthCueSettings {
+  enabled: boolean;
+  lowColor: string;  // Colour at wMin (hex string)
+  highColor: string; // Colour at wMax (hex string)
+  wMin: number;
+  wMax: number;
+  fade: boolean; // Fade out with distance in W from the observer's hyperplane (w = 0)
+  fadeDistance: number; // |w| at which the fade reaches minOpacity
+  minOpacity: number;
+}
+
+// Axis pairs of the rotation planes, in ROTATION_PLANES order
+const PLANE_AXES: [number, number][] = [[0, 1], [0, 2], [0, 3], [1, 2], [1, 3], [2, 3]];
+
+// Scratch buffers for the object-based API below, which wraps '@/math/buffer4d'
+const scratchA = Mat4Buffer.create();
+const scratchB = Mat4Buffer.create();
+const scratchVector = new Float64Array(4);
+
 // Utility functions for 4D math
 export class Vector4DUtils {
   static add(a: Vector4D, b: Vector4D): Vector4D {
@@ -63,137 +154,90 @@ export class Vector4DUtils {
 
   // 4x4 rotation matrices for each plane
   static rotationMatrixXY(angle: number): number[][] {
-    const c = Math.cos(angle);
-    const s = Math.sin(angle);
-    return [
-      [c, -s, 0, 0],
-      [s, c, 0, 0],
-      [0, 0, 1, 0],
-      [0, 0, 0, 1]
-    ];
+    return Mat4Buffer.toRows(Mat4Buffer.planeRotation(0, 1, angle, scratchA));
   }
 
   static rotationMatrixXZ(angle: number): number[][] {
-    const c = Math.cos(angle);
-    const s = Math.sin(angle);
-    return [
-      [c, 0, -s, 0],
-      [0, 1, 0, 0],
-      [s, 0, c, 0],
-      [0, 0, 0, 1]
-    ];
+    return Mat4Buffer.toRows(Mat4Buffer.planeRotation(0, 2, angle, scratchA));
   }
 
   static rotationMatrixXW(angle: number): number[][] {
-    const c = Math.cos(angle);
-    const s = Math.sin(angle);
-    return [
-      [c, 0, 0, -s],
-      [0, 1, 0, 0],
-      [0, 0, 1, 0],
-      [s, 0, 0, c]
-    ];
+    return Mat4Buffer.toRows(Mat4Buffer.planeRotation(0, 3, angle, scratchA));
   }
 
   static rotationMatrixYZ(angle: number): number[][] {
-    const c = Math.cos(angle);
-    const s = Math.sin(angle);
-    return [
-      [1, 0, 0, 0],
-      [0, c, -s, 0],
-      [0, s, c, 0],
-      [0, 0, 0, 1]
-    ];
+    return Mat4Buffer.toRows(Mat4Buffer.planeRotation(1, 2, angle, scratchA));
   }
 
   static rotationMatrixYW(angle: number): number[][] {
-    const c = Math.cos(angle);
-    const s = Math.sin(angle);
-    return [
-      [1, 0, 0, 0],
-      [0, c, 0, -s],
-      [0, 0, 1, 0],
-      [0, s, 0, c]
-    ];
+    return Mat4Buffer.toRows(Mat4Buffer.planeRotation(1, 3, angle, scratchA));
   }
 
   static rotationMatrixZW(angle: number): number[][] {
-    const c = Math.cos(angle);
-    const s = Math.sin(angle);
-    return [
-      [1, 0, 0, 0],
-      [0, 1, 0, 0],
-      [0, 0, c, -s],
-      [0, 0, s, c]
-    ];
+    return Mat4Buffer.toRows(Mat4Buffer.planeRotation(2, 3, angle, scratchA));
   }
 
   // Matrix multiplication for 4x4 matrices
   static matrixMultiplyMatrix(a: number[][], b: number[][]): number[][] {
-    const result: number[][] = Array(4).fill(0).map(() => Array(4).fill(0));
-    for (let i = 0; i < 4; i++) {
-      for (let j = 0; j < 4; j++) {
-        for (let k = 0; k < 4; k++) {
-          result[i][j] += a[i][k] * b[k][j];
-        }
-      }
-    }
-    return result;
+    Mat4Buffer.fromRows(a, scratchA);
+    Mat4Buffer.fromRows(b, scratchB);
+    return Mat4Buffer.toRows(Mat4Buffer.multiply(scratchA, scratchB, scratchA));
   }
 
   // Matrix-vector multiplication for 4D
   static matrixMultiplyVector(matrix: number[][], vector: Vector4D): Vector4D {
-    return {
-      x: matrix[0][0] * vector.x + matrix[0][1] * vector.y + matrix[0][2] * vector.z + matrix[0][3] * vector.w,
-      y: matrix[1][0] * vector.x + matrix[1][1] * vector.y + matrix[1][2] * vector.z + matrix[1][3] * vector.w,
-      z: matrix[2][0] * vector.x + matrix[2][1] * vector.y + matrix[2][2] * vector.z + matrix[2][3] * vector.w,
-      w: matrix[3][0] * vector.x + matrix[3][1] * vector.y + matrix[3][2] * vector.z + matrix[3][3] * vector.w,
-    };
+    Mat4Buffer.fromRows(matrix, scratchA);
+    scratchVector[0] = vector.x;
+    scratchVector[1] = vector.y;
+    scratchVector[2] = vector.z;
+    scratchVector[3] = vector.w;
+    Mat4Buffer.transformPoint(scratchA, scratchVector, 0, scratchVector, 0);
+    return { x: scratchVector[0], y: scratchVector[1], z: scratchVector[2], w: scratchVector[3] };
   }
 
   // Compose all rotation matrices into a single transformation matrix
-  static composeTransformMatrix(transform: Transform4D): number[][] {
-    // Start with identity matrix
-    let result: number[][] = [
-      [1, 0, 0, 0],
-      [0, 1, 0, 0],
-      [0, 0, 1, 0],
-      [0, 0, 0, 1]
+  static composeTransformMatrix(transform: PlaneAngles4D): number[][] {
+    const result = Mat4Buffer.identity(scratchB);
+    const angles = [
+      transform.rotation_xy,
+      transform.rotation_xz,
+      transform.rotation_xw,
+      transform.rotation_yz,
+      transform.rotation_yw,
+      transform.rotation_zw,
     ];
 
     // Apply rotations in sequence: XY, XZ, XW, YZ, YW, ZW
     // Matrix multiplication order: result = R_zw * R_yw * R_yz * R_xw * R_xz * R_xy
-    const matrices = [
-      this.rotationMatrixXY(transform.rotation_xy),
-      this.rotationMatrixXZ(transform.rotation_xz),
-      this.rotationMatrixXW(transform.rotation_xw),
-      this.rotationMatrixYZ(transform.rotation_yz),
-      this.rotationMatrixYW(transform.rotation_yw),
-      this.rotationMatrixZW(transform.rotation_zw),
-    ];
-
     // Multiply matrices in reverse order to match sequential application
-    for (let i = matrices.length - 1; i >= 0; i--) {
-      result = this.matrixMultiplyMatrix(matrices[i], result);
+    for (let i = PLANE_AXES.length - 1; i >= 0; i--) {
+      const [a, b] = PLANE_AXES[i];
+      Mat4Buffer.multiply(Mat4Buffer.planeRotation(a, b, angles[i], scratchA), result, result);
     }
 
-    return result;
+    return Mat4Buffer.toRows(result);
   }
 
-  // Apply all rotations using matrix-based approach
+  // Apply the accumulated orientation of a transform
   static rotate(point: Vector4D, transform: Transform4D): Vector4D {
-    const matrix = this.composeTransformMatrix(transform);
-    return this.matrixMultiplyVector(matrix, point);
+    return this.matrixMultiplyVector(transform.orientation, point);
   }
 
-  // Project 4D point to 3D using perspective projection - optimized
-  static projectTo3D(point: Vector4D, distance: number = 5): { x: number; y: number; z: number } {
-    // Handle edge case where w approaches distance to prevent division by near-zero
-    const denominator = distance - point.w;
-    if (Math.abs(denominator) < 0.001) {
-      return { x: point.x * 1000, y: point.y * 1000, z: point.z * 1000 };
-    }
+  // Rotate then translate a point by the global transform
+  static applyTransform(point: Vector4D, transform: Transform4D): Vector4D {
+    return this.add(this.rotate(point, transform), transform.translation);
+  }
+
+  static dot(a: Vector4D, b: Vector4D): number {
+    return a.x * b.x + a.y * b.y + a.z * b.z + a.w * b.w;
+  }
 
+  // Project 4D point to 3D using perspective projection - optimized.
+  // Points at or behind the eye have no meaningful projection: clip geometry against the
+  // near hyperplane first (see clipSegment in math/projection). The denominator is only
+  // clamped here so that unclipped points never divide by zero or flip through the eye.
+  static projectTo3D(point: Vector4D, distance: number = 5): { x: number; y: number; z: number } {
+    const denominator = Math.max(distance - point.w, 0.001);
     const factor = distance / denominator;
     return {
       x: point.x * factor,
@@ -202,3 +246,118 @@ export class Vector4DUtils {
     };
   }
 }
+
+// Utility functions for accumulated 4D orientations
+export class Orientation4DUtils {
+  static identity(): Orientation4D {
+    return [
+      [1, 0, 0, 0],
+      [0, 1, 0, 0],
+      [0, 0, 1, 0],
+      [0, 0, 0, 1]
+    ];
+  }
+
+  static planeRotation(plane: RotationPlane4D, angle: number): number[][] {
+    switch (plane) {
+      case 'xy': return Vector4DUtils.rotationMatrixXY(angle);
+      case 'xz': return Vector4DUtils.rotationMatrixXZ(angle);
+      case 'xw': return Vector4DUtils.rotationMatrixXW(angle);
+      case 'yz': return Vector4DUtils.rotationMatrixYZ(angle);
+      case 'yw': return Vector4DUtils.rotationMatrixYW(angle);
+      case 'zw': return Vector4DUtils.rotationMatrixZW(angle);
+    }
+  }
+
+  // Rotate in a plane of the view's local frame, i.e. the plane as currently seen on screen.
+  // The increment is applied after the existing orientation: M' = R(angle) * M
+  static rotateInViewPlane(orientation: Orientation4D, plane: RotationPlane4D, angle: number): Orientation4D {
+    return Vector4DUtils.matrixMultiplyMatrix(this.planeRotation(plane, angle), orientation);
+  }
+
+  // Gram-Schmidt over the rows to remove floating point drift from repeated increments
+  static orthonormalize(orientation: Orientation4D): Orientation4D {
+    const rows: number[][] = [];
+    for (let i = 0; i < 4; i++) {
+      const row = [...orientation[i]];
+      for (const prev of rows) {
+        const dot = row[0] * prev[0] + row[1] * prev[1] + row[2] * prev[2] + row[3] * prev[3];
+        for (let k = 0; k < 4; k++) row[k] -= dot * prev[k];
+      }
+      const length = Math.hypot(row[0], row[1], row[2], row[3]);
+      rows.push(row.map(value => value / length));
+    }
+    return rows;
+  }
+
+  static fromAngles(angles: PlaneAngles4D): Orientation4D {
+    return Vector4DUtils.composeTransformMatrix(angles);
+  }
+
+  // Decompose an orientation into the legacy angles, so that fromAngles(toAngles(M)) === M.
+  // composeTransformMatrix builds M = R_xy * R_xz * R_xw * R_yz * R_yw * R_zw, and the last three
+  // factors leave X fixed, so the first column of M only depends on the XY, XZ and XW angles.
+  static toAngles(orientation: Orientation4D): PlaneAngles4D {
+    const m = orientation;
+    const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+
+    const rotation_xw = Math.asin(clamp(m[3][0]));
+    const rotation_xz = Math.atan2(m[2][0], Math.hypot(m[0][0], m[1][0]));
+    const rotation_xy = Math.atan2(m[1][0], m[0][0]);
+
+    // Strip the X rotations: Q = (R_xy * R_xz * R_xw)^T * M = R_yz * R_yw * R_zw
+    const xRotations = Vector4DUtils.composeTransformMatrix({
+      rotation_xy, rotation_xz, rotation_xw, rotation_yz: 0, rotation_yw: 0, rotation_zw: 0
+    });
+    const q = Vector4DUtils.matrixMultiplyMatrix(this.transpose(xRotations), m);
+
+    const rotation_yw = Math.asin(clamp(q[3][1]));
+    const rotation_yz = Math.atan2(q[2][1], q[1][1]);
+
+    const yRotations = Vector4DUtils.matrixMultiplyMatrix(
+      Vector4DUtils.rotationMatrixYZ(rotation_yz),
+      Vector4DUtils.rotationMatrixYW(rotation_yw)
+    );
+    const r = Vector4DUtils.matrixMultiplyMatrix(this.transpose(yRotations), q);
+    const rotation_zw = Math.atan2(r[3][2], r[2][2]);
+
+    return { rotation_xy, rotation_xz, rotation_xw, rotation_yz, rotation_yw, rotation_zw };
+  }
+
+  static transpose(matrix: number[][]): number[][] {
+    return Mat4Buffer.toRows(Mat4Buffer.transpose(Mat4Buffer.fromRows(matrix, scratchA), scratchA));
+  }
+
+  // +1 for a rotation, -1 for an orthonormal matrix that also reflects
+  static determinant(matrix: number[][]): number {
+    return Mat4Buffer.determinant(Mat4Buffer.fromRows(matrix, scratchA));
+  }
+}
+
+const IDENTITY_TRANSFORM: Transform4D = {
+  orientation: Orientation4DUtils.identity(),
+  translation: { x: 0, y: 0, z: 0, w: 0 }
+};
+
+// Utility functions for rigid 4D transforms
+export class Transform4DUtils {
+  static identity(): Transform4D {
+    return { orientation: Orientation4DUtils.identity(), translation: { x: 0, y: 0, z: 0, w: 0 } };
+  }
+
+  // The transform applying `inner` first and then `outer`
+  static compose(outer: Transform4D, inner: Transform4D): Transform4D {
+    return {
+      orientation: Vector4DUtils.matrixMultiplyMatrix(outer.orientation, inner.orientation),
+      translation: Vector4DUtils.applyTransform(inner.translation, outer)
+    };
+  }
+
+  // Shape space to view space: the shape's own transform, the global one unless the shape
+  // is static, then the camera's view
+  static shapeToView(shape: Shape4D, { transform, view }: ViewTransforms): Transform4D {
+    const world = shape.transform ?? IDENTITY_TRANSFORM;
+    const navigated = shape.affectedByGlobalTransform === false ? world : this.compose(transform, world);
+    return this.compose(view, navigated);
+  }
+}